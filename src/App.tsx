@@ -5,74 +5,78 @@ import {
   Outlet,
   Route,
   Routes,
+  useLocation,
+  useSearchParams,
 } from "react-router-dom";
 import "./App.css";
 import OverviewPage from "./pages/OverviewPage";
 import SummaryPage from "./pages/SummaryPage";
 import MediaPage from "./pages/MediaPage";
+import MediaProfilePage from "./pages/MediaProfilePage";
 import TopicsPage from "./pages/TopicsPage";
+import TopicDetailPage from "./pages/TopicDetailPage";
+import MainframePage from "./pages/MainframePage";
 import SpokespersonPage from "./pages/SpokespersonPage";
+import SpokespersonProfilePage from "./pages/SpokespersonProfilePage";
+import BenchmarkPage from "./pages/BenchmarkPage";
 import ArticlesPage from "./pages/ArticlesPage";
 import ReportsPage from "./pages/ReportsPage";
-import { articles, sentimentScore } from "./data/mediaData";
-import type { Sentiment } from "./data/mediaData";
+import MediaRegistryPage from "./pages/MediaRegistryPage";
+import SpokespersonRegistryPage from "./pages/SpokespersonRegistryPage";
+import PrValuePage from "./pages/PrValuePage";
+import {
+  countSentiments,
+  distributionBy,
+  netSentimentScore,
+  sentimentTrend,
+} from "./lib/coverageSelectors";
+import { periodStart } from "./lib/dateRange";
+import { useCoverageStore } from "./lib/coverageStore";
+import { applyRateCard, useRateCard, valueTotals } from "./lib/prValue";
+import {
+  applyMediaRegistry,
+  reachWeightedSentiment,
+  totalReach,
+  useMediaRegistry,
+} from "./lib/mediaRegistry";
+import {
+  applySpokespersonRegistry,
+  useSpokespersonRegistry,
+} from "./lib/spokespersonRegistry";
+import { applyDefaultView } from "./lib/savedViews";
+import {
+  applyComparisonFilters,
+  applyFilters,
+  buildFacetCounts,
+  buildFilterOptions,
+  parseFilters,
+  toFilterParams,
+} from "./lib/filters";
+import { SENTIMENT_LABELS } from "./types/coverage";
+import type { SpokespersonRow } from "./types/dashboard";
+import type { CoverageFilters, FilterUpdateOptions } from "./types/filters";
+import FilterBar from "./components/FilterBar";
+import FilterChips from "./components/FilterChips";
+import SavedViewsPanel from "./components/SavedViewsPanel";
 import { Button } from "./components/ui/button";
 import { Card, CardContent } from "./components/ui/card";
 import { Input } from "./components/ui/input";
 import {
+  Contact,
+  Database,
   Home,
+  Layers,
   LayoutDashboard,
   Newspaper,
   PieChart,
+  Scale,
   User,
   TrendingUp,
   LogOut,
   FileText,
+  Wallet,
 } from "lucide-react";
 
-const inferTopic = (title: string) => {
-  const lower = title.toLowerCase();
-  if (
-    lower.includes("ai") ||
-    lower.includes("digital") ||
-    lower.includes("platform")
-  )
-    return "Digital & AI";
-  if (
-    lower.includes("regulatory") ||
-    lower.includes("lawsuit") ||
-    lower.includes("review")
-  )
-    return "Regulatory";
-  if (lower.includes("partnership") || lower.includes("contract"))
-    return "Partnerships";
-  if (
-    lower.includes("growth") ||
-    lower.includes("margins") ||
-    lower.includes("capex")
-  )
-    return "Financial";
-  if (
-    lower.includes("health") ||
-    lower.includes("clinic") ||
-    lower.includes("patient")
-  )
-    return "Healthcare";
-  if (
-    lower.includes("energy") ||
-    lower.includes("offshore") ||
-    lower.includes("carbon")
-  )
-    return "Energy";
-  return "Corporate Updates";
-};
-
-const spokespersonMap: Record<string, string> = {
-  "Aurora Mobile": "Lina Hartono",
-  "Nimbus Energy": "Rafael Suryo",
-  "Keystone Health": "Dr. Maya Putri",
-};
-
 type LoginProps = {
   onLogin: () => void;
 };
@@ -162,159 +166,131 @@ const LoginPage = ({ onLogin }: LoginProps) => {
 };
 
 const DashboardLayout = ({ onLogout }: DashboardLayoutProps) => {
-  const dates = useMemo(
-    () => articles.map((article) => article.date).sort(),
-    [],
+  const coverageStore = useCoverageStore();
+  const mediaRegistry = useMediaRegistry();
+  const spokespersonRegistry = useSpokespersonRegistry();
+  const rateCard = useRateCard();
+  const location = useLocation();
+
+  const articles = useMemo(
+    () =>
+      applyRateCard(
+        applySpokespersonRegistry(
+          applyMediaRegistry(coverageStore.articles, mediaRegistry.entries),
+          spokespersonRegistry.entries,
+        ),
+        rateCard.rateCard,
+      ),
+    [
+      coverageStore.articles,
+      mediaRegistry.entries,
+      spokespersonRegistry.entries,
+      rateCard.rateCard,
+    ],
+  );
+  const coverage = { ...coverageStore, articles };
+
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const filterSearch = toFilterParams(parseFilters(searchParams)).toString();
+  const filters = useMemo(
+    () => parseFilters(new URLSearchParams(filterSearch)),
+    [filterSearch],
+  );
+
+  const updateFilters = (
+    patch: Partial<CoverageFilters>,
+    options?: FilterUpdateOptions,
+  ) => setSearchParams(toFilterParams({ ...filters, ...patch }), options);
+
+  const filterOptions = useMemo(() => buildFilterOptions(articles), [articles]);
+
+  const filteredArticles = useMemo(
+    () => applyFilters(articles, filters),
+    [articles, filters],
+  );
+
+  const facetCounts = useMemo(
+    () => buildFacetCounts(articles, filters),
+    [articles, filters],
+  );
+
+  const comparisonArticles = useMemo(
+    () => applyComparisonFilters(articles, filters),
+    [articles, filters],
   );
-  const minDate = dates[0];
-  const maxDate = dates[dates.length - 1];
-
-  const [dateFrom] = useState(minDate);
-  const [dateTo] = useState(maxDate);
-  const [companyFilter] = useState("All");
-  const [sentimentFilter] = useState("All");
-
-  const filteredArticles = useMemo(() => {
-    return articles.filter((article) => {
-      const withinDateRange =
-        article.date >= dateFrom && article.date <= dateTo;
-      const matchesCompany =
-        companyFilter === "All" || article.company === companyFilter;
-      const matchesSentiment =
-        sentimentFilter === "All" || article.sentiment === sentimentFilter;
-      return withinDateRange && matchesCompany && matchesSentiment;
-    });
-  }, [dateFrom, dateTo, companyFilter, sentimentFilter]);
 
   const kpis = useMemo(() => {
     const total = filteredArticles.length;
-    const sentimentCounts = filteredArticles.reduce(
-      (acc, article) => {
-        acc[article.sentiment] += 1;
-        return acc;
-      },
-      {
-        Positive: 0,
-        Neutral: 0,
-        Negative: 0,
-      } as Record<Sentiment, number>,
-    );
-
-    const avgScore = total
-      ? (
-          filteredArticles.reduce(
-            (acc, article) => acc + sentimentScore[article.sentiment],
-            0,
-          ) / total
-        ).toFixed(2)
-      : "0.00";
+    const sentimentCounts = countSentiments(filteredArticles);
 
     return {
       total,
       positiveShare: total
-        ? Math.round((sentimentCounts.Positive / total) * 100)
+        ? Math.round((sentimentCounts.Positif / total) * 100)
         : 0,
       negativeShare: total
-        ? Math.round((sentimentCounts.Negative / total) * 100)
+        ? Math.round((sentimentCounts.Negatif / total) * 100)
         : 0,
-      avgScore,
+      netScore: netSentimentScore(filteredArticles),
+      totalReach: totalReach(filteredArticles),
+      reachWeightedScore: reachWeightedSentiment(filteredArticles),
+      ...valueTotals(filteredArticles),
       sentimentCounts,
     };
   }, [filteredArticles]);
 
-  const trendData = useMemo(() => {
-    const grouped = new Map<
-      string,
-      { date: string; volume: number; score: number }
-    >();
-    filteredArticles.forEach((article) => {
-      const current = grouped.get(article.date) || {
-        date: article.date,
-        volume: 0,
-        score: 0,
-      };
-      current.volume += 1;
-      current.score += sentimentScore[article.sentiment];
-      grouped.set(article.date, current);
-    });
-    return Array.from(grouped.values())
-      .sort((a, b) => a.date.localeCompare(b.date))
-      .map((item) => ({
-        ...item,
-        sentiment: Number((item.score / item.volume).toFixed(2)),
-      }));
-  }, [filteredArticles]);
+  const trendData = useMemo(
+    () =>
+      sentimentTrend(filteredArticles, (row) =>
+        row.publishedDate
+          ? periodStart(row.publishedDate, filters.granularity)
+          : "",
+      ),
+    [filteredArticles, filters.granularity],
+  );
 
   const sentimentData = useMemo(() => {
-    return (Object.keys(kpis.sentimentCounts) as Sentiment[]).map((key) => ({
+    return SENTIMENT_LABELS.map((key) => ({
       name: key,
       value: kpis.sentimentCounts[key],
     }));
   }, [kpis.sentimentCounts]);
 
-  const mediaData = useMemo(() => {
-    const counts = filteredArticles.reduce<Record<string, number>>(
-      (acc, item) => {
-        acc[item.media] = (acc[item.media] || 0) + 1;
-        return acc;
-      },
-      {},
-    );
+  const mediaData = useMemo(
+    () => distributionBy(filteredArticles, (item) => item.media).slice(0, 8),
+    [filteredArticles],
+  );
 
-    return Object.entries(counts)
-      .map(([name, value]) => ({ name, value }))
-      .sort((a, b) => b.value - a.value)
-      .slice(0, 8);
-  }, [filteredArticles]);
+  const topicData = useMemo(
+    () => distributionBy(filteredArticles, (item) => item.topic),
+    [filteredArticles],
+  );
 
-  const topicData = useMemo(() => {
-    const counts = filteredArticles.reduce<Record<string, number>>(
-      (acc, item) => {
-        const topic = inferTopic(item.title);
-        acc[topic] = (acc[topic] || 0) + 1;
+  const spokespersonTable = useMemo(() => {
+    const rows = filteredArticles.reduce<Record<string, SpokespersonRow>>(
+      (acc, article) => {
+        article.spokespersons.forEach((name) => {
+          const entry = acc[name] || {
+            name,
+            company: article.company,
+            total: 0,
+            positive: 0,
+            neutral: 0,
+            negative: 0,
+          };
+          entry.total += 1;
+          if (article.sentiment === "Positif") entry.positive += 1;
+          if (article.sentiment === "Netral") entry.neutral += 1;
+          if (article.sentiment === "Negatif") entry.negative += 1;
+          acc[name] = entry;
+        });
         return acc;
       },
       {},
     );
 
-    return Object.entries(counts)
-      .map(([name, value]) => ({ name, value }))
-      .sort((a, b) => b.value - a.value);
-  }, [filteredArticles]);
-
-  const spokespersonTable = useMemo(() => {
-    const rows = filteredArticles.reduce<
-      Record<
-        string,
-        {
-          name: string;
-          company: string;
-          total: number;
-          positive: number;
-          neutral: number;
-          negative: number;
-        }
-      >
-    >((acc, article) => {
-      const name = spokespersonMap[article.company];
-      if (!name) return acc;
-      const entry = acc[name] || {
-        name,
-        company: article.company,
-        total: 0,
-        positive: 0,
-        neutral: 0,
-        negative: 0,
-      };
-      entry.total += 1;
-      if (article.sentiment === "Positive") entry.positive += 1;
-      if (article.sentiment === "Neutral") entry.neutral += 1;
-      if (article.sentiment === "Negative") entry.negative += 1;
-      acc[name] = entry;
-      return acc;
-    }, {});
-
-    return Object.values(rows);
+    return Object.values(rows).sort((a, b) => b.total - a.total);
   }, [filteredArticles]);
 
   const spokespersonData = useMemo(() => {
@@ -332,7 +308,7 @@ const DashboardLayout = ({ onLogout }: DashboardLayoutProps) => {
         </div>
         <nav className="nav">
           <NavLink
-            to="/"
+            to={{ pathname: "/", search: filterSearch }}
             end
             className={({ isActive }) => `nav-item ${isActive ? "active" : ""}`}
           >
@@ -340,40 +316,75 @@ const DashboardLayout = ({ onLogout }: DashboardLayoutProps) => {
             Beranda
           </NavLink>
           <NavLink
-            to="/rangkuman"
+            to={{ pathname: "/rangkuman", search: filterSearch }}
             className={({ isActive }) => `nav-item ${isActive ? "active" : ""}`}
           >
             <LayoutDashboard className="nav-icon" />
             Rangkuman
           </NavLink>
           <NavLink
-            to="/media"
+            to={{ pathname: "/media", search: filterSearch }}
             className={({ isActive }) => `nav-item ${isActive ? "active" : ""}`}
           >
             <TrendingUp className="nav-icon" />
             Media
           </NavLink>
           <NavLink
-            to="/topik"
+            to={{ pathname: "/topik", search: filterSearch }}
             className={({ isActive }) => `nav-item ${isActive ? "active" : ""}`}
           >
             <PieChart className="nav-icon" />
             Topik
           </NavLink>
           <NavLink
-            to="/spokesperson"
+            to={{ pathname: "/mainframe", search: filterSearch }}
+            className={({ isActive }) => `nav-item ${isActive ? "active" : ""}`}
+          >
+            <Layers className="nav-icon" />
+            Mainframe
+          </NavLink>
+          <NavLink
+            to={{ pathname: "/spokesperson", search: filterSearch }}
             className={({ isActive }) => `nav-item ${isActive ? "active" : ""}`}
           >
             <User className="nav-icon" />
             Spokesperson
           </NavLink>
           <NavLink
-            to="/rekap-pemberitaan"
+            to={{ pathname: "/kompetitor", search: filterSearch }}
+            className={({ isActive }) => `nav-item ${isActive ? "active" : ""}`}
+          >
+            <Scale className="nav-icon" />
+            Kompetitor
+          </NavLink>
+          <NavLink
+            to={{ pathname: "/nilai-pr", search: filterSearch }}
+            className={({ isActive }) => `nav-item ${isActive ? "active" : ""}`}
+          >
+            <Wallet className="nav-icon" />
+            Nilai PR
+          </NavLink>
+          <NavLink
+            to={{ pathname: "/rekap-pemberitaan", search: filterSearch }}
             className={({ isActive }) => `nav-item ${isActive ? "active" : ""}`}
           >
             <Newspaper className="nav-icon" />
             Rekap Pemberitaan
           </NavLink>
+          <NavLink
+            to={{ pathname: "/registri-media", search: filterSearch }}
+            className={({ isActive }) => `nav-item ${isActive ? "active" : ""}`}
+          >
+            <Database className="nav-icon" />
+            Registri Media
+          </NavLink>
+          <NavLink
+            to={{ pathname: "/registri-spokesperson", search: filterSearch }}
+            className={({ isActive }) => `nav-item ${isActive ? "active" : ""}`}
+          >
+            <Contact className="nav-icon" />
+            Registri Spokesperson
+          </NavLink>
           <NavLink
             to="/reports"
             className={({ isActive }) => `nav-item ${isActive ? "active" : ""}`}
@@ -382,6 +393,7 @@ const DashboardLayout = ({ onLogout }: DashboardLayoutProps) => {
             Reports
           </NavLink>
         </nav>
+        <SavedViewsPanel />
         <div className="sidebar-footer">
           <Button
             variant="outline"
@@ -402,11 +414,32 @@ const DashboardLayout = ({ onLogout }: DashboardLayoutProps) => {
               <Button>Export Data</Button>
             </div>
           </div>
+          {location.pathname !== "/reports" ? (
+            <div className="flex w-full flex-col gap-3">
+              <FilterBar
+                filters={filters}
+                options={filterOptions}
+                counts={facetCounts}
+                onChange={updateFilters}
+                onReset={() => setSearchParams({})}
+                onRefresh={() => coverage.refresh()}
+              />
+              <FilterChips filters={filters} onChange={updateFilters} />
+            </div>
+          ) : null}
         </header>
 
         <Outlet
           context={{
+            coverage,
+            filters,
+            filterSearch,
+            updateFilters,
             filteredArticles,
+            comparisonArticles,
+            mediaRegistry,
+            spokespersonRegistry,
+            rateCard,
             kpis,
             trendData,
             sentimentData,
@@ -426,11 +459,15 @@ function App() {
 
   useEffect(() => {
     const stored = window.localStorage.getItem(AUTH_STORAGE_KEY);
+    if (stored === "true") {
+      applyDefaultView();
+    }
     setIsAuthed(stored === "true");
   }, []);
 
   const handleLogin = () => {
     window.localStorage.setItem(AUTH_STORAGE_KEY, "true");
+    applyDefaultView();
     setIsAuthed(true);
   };
 
@@ -450,8 +487,22 @@ function App() {
           <Route index element={<OverviewPage />} />
           <Route path="rangkuman" element={<SummaryPage />} />
           <Route path="media" element={<MediaPage />} />
+          <Route path="media/:name" element={<MediaProfilePage />} />
           <Route path="topik" element={<TopicsPage />} />
+          <Route path="topik/:topic" element={<TopicDetailPage />} />
+          <Route path="mainframe" element={<MainframePage />} />
           <Route path="spokesperson" element={<SpokespersonPage />} />
+          <Route
+            path="spokesperson/:name"
+            element={<SpokespersonProfilePage />}
+          />
+          <Route path="kompetitor" element={<BenchmarkPage />} />
+          <Route path="nilai-pr" element={<PrValuePage />} />
+          <Route path="registri-media" element={<MediaRegistryPage />} />
+          <Route
+            path="registri-spokesperson"
+            element={<SpokespersonRegistryPage />}
+          />
           <Route path="rekap-pemberitaan" element={<ArticlesPage />} />
           <Route path="reports" element={<ReportsPage />} />
         </Route>
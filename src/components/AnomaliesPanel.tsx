@@ -0,0 +1,141 @@
+import { AlertTriangle } from "lucide-react";
+import { Button } from "./ui/button";
+import { Card } from "./ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { ANOMALY_METRIC_LABELS, ANOMALY_SENSITIVITIES } from "../lib/anomalies";
+import { formatPeriod } from "../lib/dateRange";
+import type { Anomaly, AnomalySensitivity } from "../types/anomalies";
+import type { CoverageArticle } from "../types/coverage";
+
+type AnomaliesPanelProps = {
+  anomalies: Anomaly[];
+  sensitivity: AnomalySensitivity;
+  onSensitivityChange: (sensitivity: AnomalySensitivity) => void;
+  getArticles: (anomaly: Anomaly) => CoverageArticle[];
+  onOpen: (anomaly: Anomaly) => void;
+};
+
+const HEADLINES_PER_ANOMALY = 3;
+
+const formatValue = (anomaly: Anomaly, value: number) =>
+  anomaly.metric === "negativeShare"
+    ? `${Math.round(value * 100)}%`
+    : value.toLocaleString("id-ID", { maximumFractionDigits: 1 });
+
+const AnomaliesPanel = ({
+  anomalies,
+  sensitivity,
+  onSensitivityChange,
+  getArticles,
+  onOpen,
+}: AnomaliesPanelProps) => (
+  <Card className="rounded-2xl border bg-white shadow-sm mt-4">
+    <div className="flex flex-wrap items-center justify-between gap-3 p-6 pb-2">
+      <div className="space-y-1">
+        <h3>Anomali</h3>
+        <span className="text-xs text-slate-400">
+          Hari dengan lonjakan volume atau porsi negatif dibanding median 28
+          hari sebelumnya
+        </span>
+      </div>
+      <div className="flex items-center gap-2">
+        <label className="text-xs text-slate-500" htmlFor="anomalySensitivity">
+          Sensitivitas
+        </label>
+        <Select
+          value={sensitivity}
+          onValueChange={(value) =>
+            onSensitivityChange(value as AnomalySensitivity)
+          }
+        >
+          <SelectTrigger id="anomalySensitivity" className="h-9 w-[120px]">
+            <SelectValue placeholder="Sensitivitas" />
+          </SelectTrigger>
+          <SelectContent>
+            {ANOMALY_SENSITIVITIES.map((level) => (
+              <SelectItem key={level.value} value={level.value}>
+                {level.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+    <div className="space-y-3 px-6 pb-6 pt-2">
+      {anomalies.length === 0 ? (
+        <p className="text-sm text-slate-500">
+          Tidak ada anomali pada periode ini.
+        </p>
+      ) : (
+        anomalies.map((anomaly) => {
+          const articles = getArticles(anomaly);
+          return (
+            <div
+              key={`${anomaly.date}-${anomaly.metric}`}
+              className="rounded-xl border p-4"
+            >
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex items-center gap-2 text-sm font-medium text-slate-900">
+                  <AlertTriangle
+                    className={`h-4 w-4 ${
+                      anomaly.metric === "negativeShare"
+                        ? "text-rose-500"
+                        : "text-amber-500"
+                    }`}
+                  />
+                  {ANOMALY_METRIC_LABELS[anomaly.metric]} ·{" "}
+                  {formatPeriod(anomaly.date, "day")}
+                </div>
+                <span className="text-xs text-slate-500">
+                  {formatValue(anomaly, anomaly.value)} vs median{" "}
+                  {formatValue(anomaly, anomaly.baseline)} · skor{" "}
+                  {anomaly.score.toFixed(1)}
+                </span>
+              </div>
+              <ul className="mt-2 space-y-1 text-sm text-slate-600">
+                {articles.slice(0, HEADLINES_PER_ANOMALY).map((article) => (
+                  <li key={article.id} className="truncate">
+                    {article.url ? (
+                      <a
+                        href={article.url}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="hover:underline"
+                      >
+                        {article.title}
+                      </a>
+                    ) : (
+                      article.title
+                    )}
+                    <span className="text-xs text-slate-400">
+                      {" "}
+                      · {article.media}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+              {articles.length > HEADLINES_PER_ANOMALY ? (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="mt-1 h-7 px-2 text-xs"
+                  onClick={() => onOpen(anomaly)}
+                >
+                  Lihat {articles.length} pemberitaan
+                </Button>
+              ) : null}
+            </div>
+          );
+        })
+      )}
+    </div>
+  </Card>
+);
+
+export default AnomaliesPanel;
@@ -0,0 +1,202 @@
+import { useEffect, useMemo, useState } from "react";
+import { ArrowDown, ArrowUp, Download, X } from "lucide-react";
+import ProfileLink from "./ProfileLink";
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "./ui/table";
+import { articlesToCsvRows, downloadCsv, toFileSlug } from "../lib/exportFile";
+import { mediaProfilePath } from "../lib/profileLinks";
+import type { CoverageArticle } from "../types/coverage";
+import type { DrillDown } from "../types/dashboard";
+
+type ArticleDrawerProps = {
+  drillDown: DrillDown | null;
+  onClose: () => void;
+};
+
+type SortKey = "publishedDate" | "title" | "media" | "sentiment";
+
+const SORT_COLUMNS: { key: SortKey; label: string }[] = [
+  { key: "publishedDate", label: "Tanggal" },
+  { key: "title", label: "Headline" },
+  { key: "media", label: "Media" },
+  { key: "sentiment", label: "Tone" },
+];
+
+const formatDate = (value: string) => {
+  if (!value) return "-";
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime())) return value;
+  return parsed.toLocaleDateString("id-ID", {
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+  });
+};
+
+const sortArticles = (
+  articles: CoverageArticle[],
+  key: SortKey,
+  direction: "asc" | "desc",
+) =>
+  [...articles].sort((a, b) => {
+    const comparison = (a[key] || "").localeCompare(b[key] || "", "id-ID", {
+      numeric: true,
+      sensitivity: "base",
+    });
+    return direction === "asc" ? comparison : -comparison;
+  });
+
+const ArticleDrawer = ({ drillDown, onClose }: ArticleDrawerProps) => {
+  const [sortKey, setSortKey] = useState<SortKey>("publishedDate");
+  const [sortDirection, setSortDirection] = useState<"asc" | "desc">("desc");
+
+  useEffect(() => {
+    if (!drillDown) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onClose();
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [drillDown, onClose]);
+
+  const rows = useMemo(
+    () =>
+      drillDown ? sortArticles(drillDown.articles, sortKey, sortDirection) : [],
+    [drillDown, sortKey, sortDirection],
+  );
+
+  if (!drillDown) return null;
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortDirection((prev) => (prev === "asc" ? "desc" : "asc"));
+      return;
+    }
+    setSortKey(key);
+    setSortDirection(key === "publishedDate" ? "desc" : "asc");
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end">
+      <button
+        type="button"
+        className="absolute inset-0 bg-slate-900/30"
+        onClick={onClose}
+        aria-label="Tutup"
+      />
+      <aside
+        className="relative flex h-full w-full max-w-3xl flex-col bg-white shadow-xl"
+        role="dialog"
+        aria-modal="true"
+        aria-label={drillDown.title}
+      >
+        <div className="flex items-start justify-between gap-3 border-b p-6">
+          <div className="space-y-1">
+            <h3 className="text-lg font-semibold">{drillDown.title}</h3>
+            <span className="text-xs text-slate-400">
+              {drillDown.articles.length} pemberitaan
+            </span>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() =>
+                downloadCsv(
+                  articlesToCsvRows(rows),
+                  `medmon-${toFileSlug(drillDown.title)}.csv`,
+                )
+              }
+              disabled={rows.length === 0}
+            >
+              <Download className="h-3.5 w-3.5" />
+              Export CSV
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={onClose}
+              aria-label="Tutup"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+        <div className="flex-1 overflow-y-auto">
+          <Table className="text-sm">
+            <TableHeader>
+              <TableRow>
+                {SORT_COLUMNS.map((column) => (
+                  <TableHead key={column.key} className="text-sm">
+                    <button
+                      type="button"
+                      className="inline-flex items-center gap-1"
+                      onClick={() => handleSort(column.key)}
+                    >
+                      {column.label}
+                      {sortKey === column.key ? (
+                        sortDirection === "asc" ? (
+                          <ArrowUp className="h-3 w-3" />
+                        ) : (
+                          <ArrowDown className="h-3 w-3" />
+                        )
+                      ) : null}
+                    </button>
+                  </TableHead>
+                ))}
+                <TableHead className="text-sm">Link</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((article) => (
+                <TableRow key={article.id}>
+                  <TableCell className="whitespace-nowrap text-sm">
+                    {formatDate(article.publishedDate)}
+                  </TableCell>
+                  <TableCell className="text-sm">{article.title}</TableCell>
+                  <TableCell className="text-sm">
+                    <ProfileLink to={mediaProfilePath(article.media)}>
+                      {article.media}
+                    </ProfileLink>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    <Badge
+                      variant={
+                        article.sentiment === "Negatif"
+                          ? "destructive"
+                          : article.sentiment === "Positif"
+                            ? "success"
+                            : "outline"
+                      }
+                    >
+                      {article.toneLabel}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {article.url ? (
+                      <a href={article.url} target="_blank" rel="noreferrer">
+                        View
+                      </a>
+                    ) : (
+                      "-"
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </aside>
+    </div>
+  );
+};
+
+export default ArticleDrawer;
@@ -0,0 +1,59 @@
+import { ArrowDownRight, ArrowRight, ArrowUpRight } from "lucide-react";
+
+type ComparisonDeltaProps = {
+  current: number;
+  previous: number;
+  unit: "percent" | "points" | "score";
+  higherIsBetter?: boolean;
+  label?: string;
+};
+
+const formatNumber = (value: number) =>
+  Math.abs(value).toLocaleString("id-ID", { maximumFractionDigits: 1 });
+
+const ComparisonDelta = ({
+  current,
+  previous,
+  unit,
+  higherIsBetter = true,
+  label = "vs pembanding",
+}: ComparisonDeltaProps) => {
+  const change =
+    unit !== "percent"
+      ? current - previous
+      : previous
+        ? ((current - previous) / previous) * 100
+        : null;
+
+  if (change === null) {
+    return (
+      <span className="text-xs text-slate-400">Tidak ada data pembanding</span>
+    );
+  }
+
+  const rounded = Math.round(change * 10) / 10;
+  const Icon =
+    rounded > 0 ? ArrowUpRight : rounded < 0 ? ArrowDownRight : ArrowRight;
+  const tone =
+    rounded === 0
+      ? "text-slate-400"
+      : rounded > 0 === higherIsBetter
+        ? "text-emerald-600"
+        : "text-rose-600";
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 text-xs font-medium ${tone}`}
+      title={`${label}: ${previous.toLocaleString("id-ID")}${
+        unit === "points" ? "%" : ""
+      }`}
+    >
+      <Icon className="h-3.5 w-3.5" />
+      {formatNumber(rounded)}
+      {unit === "points" ? " pp" : unit === "score" ? " poin" : "%"}
+      <span className="font-normal text-slate-400">{label}</span>
+    </span>
+  );
+};
+
+export default ComparisonDelta;
@@ -0,0 +1,87 @@
+import { Button } from "./ui/button";
+import { Card } from "./ui/card";
+import type { SimilarPair } from "../lib/similarity";
+
+type DuplicateReviewProps = {
+  title: string;
+  description: string;
+  pairs: SimilarPair[];
+  counts: Record<string, number>;
+  onMerge: (source: string, target: string) => void;
+  onDismiss: (a: string, b: string) => void;
+};
+
+const DuplicateReview = ({
+  title,
+  description,
+  pairs,
+  counts,
+  onMerge,
+  onDismiss,
+}: DuplicateReviewProps) => (
+  <Card className="rounded-2xl border bg-white shadow-sm">
+    <div className="flex items-center justify-between gap-3 p-6 pb-2">
+      <div className="space-y-1">
+        <h3>{title}</h3>
+        <span className="text-xs text-slate-400">{description}</span>
+      </div>
+      <span className="text-xs text-slate-400">{pairs.length} saran</span>
+    </div>
+    <div className="space-y-2 px-6 pb-6 pt-2">
+      {pairs.length === 0 ? (
+        <p className="text-sm text-slate-500">
+          Tidak ada kemungkinan duplikat.
+        </p>
+      ) : (
+        pairs.map((pair) => (
+          <div
+            key={`${pair.a}-${pair.b}`}
+            className="flex flex-wrap items-center justify-between gap-2 rounded-xl border p-3 text-sm"
+          >
+            <div className="min-w-0">
+              <span className="font-medium text-slate-900">{pair.a}</span>
+              <span className="text-xs text-slate-400">
+                {" "}
+                ({counts[pair.a] ?? 0})
+              </span>
+              <span className="mx-2 text-slate-400">≈</span>
+              <span className="font-medium text-slate-900">{pair.b}</span>
+              <span className="text-xs text-slate-400">
+                {" "}
+                ({counts[pair.b] ?? 0})
+              </span>
+              <span className="ml-2 text-xs text-slate-500">
+                {Math.round(pair.score * 100)}% mirip
+              </span>
+            </div>
+            <div className="flex flex-wrap gap-1">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onMerge(pair.b, pair.a)}
+              >
+                Gabung ke {pair.a}
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onMerge(pair.a, pair.b)}
+              >
+                Gabung ke {pair.b}
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onDismiss(pair.a, pair.b)}
+              >
+                Bukan duplikat
+              </Button>
+            </div>
+          </div>
+        ))
+      )}
+    </div>
+  </Card>
+);
+
+export default DuplicateReview;
@@ -0,0 +1,171 @@
+import { useEffect, useRef, useState } from "react";
+import { Check, ChevronDown } from "lucide-react";
+import { Input } from "./ui/input";
+import { normalizeSearchText } from "../lib/search";
+
+type FacetFilterProps = {
+  id: string;
+  label: string;
+  options: string[];
+  counts: Record<string, number>;
+  selected: string[];
+  onChange: (selected: string[]) => void;
+};
+
+const SEARCH_THRESHOLD = 8;
+
+const FacetFilter = ({
+  id,
+  label,
+  options,
+  counts,
+  selected,
+  onChange,
+}: FacetFilterProps) => {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState("");
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const handlePointerDown = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") setOpen(false);
+    };
+    document.addEventListener("mousedown", handlePointerDown);
+    document.addEventListener("keydown", handleKeyDown);
+    return () => {
+      document.removeEventListener("mousedown", handlePointerDown);
+      document.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [open]);
+
+  const needle = normalizeSearchText(search);
+  const visibleOptions = needle
+    ? options.filter((option) => normalizeSearchText(option).includes(needle))
+    : options;
+
+  const toggle = (option: string) =>
+    onChange(
+      selected.includes(option)
+        ? selected.filter((item) => item !== option)
+        : [...selected, option],
+    );
+
+  const summary =
+    selected.length === 0
+      ? "Semua"
+      : selected.length === 1
+        ? selected[0]
+        : `${selected.length} dipilih`;
+
+  return (
+    <div
+      ref={containerRef}
+      className="relative flex min-w-[150px] flex-1 flex-col gap-2"
+    >
+      <label className="text-xs text-slate-500" htmlFor={id}>
+        {label}
+      </label>
+      <button
+        id={id}
+        type="button"
+        className="flex h-10 w-full items-center justify-between gap-2 rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
+        aria-haspopup="listbox"
+        aria-expanded={open}
+        onClick={() => {
+          setOpen((prev) => !prev);
+          setSearch("");
+        }}
+      >
+        <span className={`truncate ${selected.length ? "font-medium" : ""}`}>
+          {summary}
+        </span>
+        <ChevronDown className="h-4 w-4 shrink-0 opacity-50" />
+      </button>
+      {open ? (
+        <div className="absolute left-0 top-full z-50 mt-1 w-72 rounded-md border bg-white p-2 shadow-md">
+          {options.length > SEARCH_THRESHOLD ? (
+            <Input
+              className="mb-2 h-8 text-xs"
+              value={search}
+              autoFocus
+              onChange={(event) => setSearch(event.target.value)}
+              placeholder={`Cari ${label.toLowerCase()}…`}
+              aria-label={`Cari ${label.toLowerCase()}`}
+            />
+          ) : null}
+          <div className="mb-1 flex items-center justify-between px-1 text-xs">
+            <button
+              type="button"
+              className="font-medium text-sky-600 hover:underline disabled:text-slate-300 disabled:no-underline"
+              disabled={visibleOptions.length === 0}
+              onClick={() =>
+                onChange(Array.from(new Set([...selected, ...visibleOptions])))
+              }
+            >
+              Pilih semua
+            </button>
+            <button
+              type="button"
+              className="font-medium text-slate-500 hover:underline disabled:text-slate-300 disabled:no-underline"
+              disabled={selected.length === 0}
+              onClick={() =>
+                onChange(
+                  needle
+                    ? selected.filter((item) => !visibleOptions.includes(item))
+                    : [],
+                )
+              }
+            >
+              Hapus
+            </button>
+          </div>
+          <ul className="max-h-64 overflow-y-auto" role="listbox">
+            {visibleOptions.length === 0 ? (
+              <li className="px-2 py-1.5 text-xs text-slate-400">
+                Tidak ada pilihan.
+              </li>
+            ) : (
+              visibleOptions.map((option) => {
+                const checked = selected.includes(option);
+                const count = counts[option] ?? 0;
+                return (
+                  <li key={option} role="option" aria-selected={checked}>
+                    <button
+                      type="button"
+                      className={`flex w-full items-center gap-2 rounded px-2 py-1.5 text-left text-xs hover:bg-slate-50 ${
+                        count === 0 && !checked ? "text-slate-400" : ""
+                      }`}
+                      onClick={() => toggle(option)}
+                    >
+                      <span
+                        className={`flex h-4 w-4 shrink-0 items-center justify-center rounded border ${
+                          checked
+                            ? "border-slate-900 bg-slate-900 text-white"
+                            : "border-slate-300"
+                        }`}
+                      >
+                        {checked ? <Check className="h-3 w-3" /> : null}
+                      </span>
+                      <span className="flex-1 truncate">{option}</span>
+                      <span className="tabular-nums text-slate-400">
+                        {count}
+                      </span>
+                    </button>
+                  </li>
+                );
+              })
+            )}
+          </ul>
+        </div>
+      ) : null}
+    </div>
+  );
+};
+
+export default FacetFilter;
@@ -0,0 +1,236 @@
+import type { ComponentProps } from "react";
+import FacetFilter from "./FacetFilter";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import {
+  COMPARE_PRESETS,
+  DATE_RANGE_PRESETS,
+  todayWib,
+} from "../lib/dateRange";
+import {
+  FACET_KEYS,
+  FACET_LABELS,
+  resolveComparisonDates,
+  resolveFilterDates,
+} from "../lib/filters";
+import { useDraftValue } from "../lib/useDraftValue";
+import type {
+  ComparePreset,
+  CoverageFilters,
+  DateRangePreset,
+  FacetCounts,
+  FilterOptions,
+  FilterUpdateOptions,
+} from "../types/filters";
+
+type FilterBarProps = {
+  filters: CoverageFilters;
+  options: FilterOptions;
+  counts: FacetCounts;
+  onChange: (
+    patch: Partial<CoverageFilters>,
+    options?: FilterUpdateOptions,
+  ) => void;
+  onReset: () => void;
+  onRefresh: () => void;
+};
+
+type DateInputProps = Omit<
+  ComponentProps<typeof Input>,
+  "type" | "value" | "onChange"
+> & {
+  value: string;
+  onCommit: (value: string, options: FilterUpdateOptions) => void;
+};
+
+const DateInput = ({ value, onCommit, ...props }: DateInputProps) => {
+  const { draft, change, flush } = useDraftValue(value, onCommit);
+  return (
+    <Input
+      {...props}
+      type="date"
+      value={draft}
+      onChange={(event) => change(event.target.value)}
+      onBlur={flush}
+      onKeyDown={(event) => {
+        if (event.key === "Enter") flush();
+      }}
+    />
+  );
+};
+
+const FilterBar = ({
+  filters,
+  options,
+  counts,
+  onChange,
+  onReset,
+  onRefresh,
+}: FilterBarProps) => {
+  const today = todayWib();
+  const { dateFrom, dateTo } = resolveFilterDates(filters);
+
+  const comparison = resolveComparisonDates(filters);
+
+  const handleDateChange = (
+    patch: Partial<CoverageFilters>,
+    updateOptions: FilterUpdateOptions,
+  ) => onChange({ range: "custom", dateFrom, dateTo, ...patch }, updateOptions);
+
+  const handleCompareDateChange = (
+    patch: Partial<CoverageFilters>,
+    updateOptions: FilterUpdateOptions,
+  ) =>
+    onChange(
+      {
+        compare: "custom",
+        compareFrom: comparison?.dateFrom ?? "",
+        compareTo: comparison?.dateTo ?? "",
+        ...patch,
+      },
+      updateOptions,
+    );
+
+  return (
+    <section className="flex w-full flex-wrap items-end gap-2 rounded-2xl border bg-white p-4 shadow-sm">
+      <div className="flex min-w-[150px] flex-col gap-2">
+        <label className="text-xs text-slate-500" htmlFor="filterRange">
+          Periode
+        </label>
+        <Select
+          value={filters.range}
+          onValueChange={(range) =>
+            onChange({
+              range: range as DateRangePreset,
+              ...(range === "custom"
+                ? { dateFrom, dateTo }
+                : { dateFrom: "", dateTo: "" }),
+            })
+          }
+        >
+          <SelectTrigger id="filterRange">
+            <SelectValue placeholder="Periode" />
+          </SelectTrigger>
+          <SelectContent>
+            {DATE_RANGE_PRESETS.map((preset) => (
+              <SelectItem key={preset.value} value={preset.value}>
+                {preset.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="flex min-w-[150px] flex-col gap-2">
+        <label className="text-xs text-slate-500" htmlFor="filterDateFrom">
+          Dari tanggal
+        </label>
+        <DateInput
+          id="filterDateFrom"
+          value={dateFrom}
+          max={dateTo || today}
+          onCommit={(value, updateOptions) =>
+            handleDateChange({ dateFrom: value }, updateOptions)
+          }
+        />
+      </div>
+      <div className="flex min-w-[150px] flex-col gap-2">
+        <label className="text-xs text-slate-500" htmlFor="filterDateTo">
+          Sampai
+        </label>
+        <DateInput
+          id="filterDateTo"
+          value={dateTo}
+          min={dateFrom || undefined}
+          max={today}
+          onCommit={(value, updateOptions) =>
+            handleDateChange({ dateTo: value }, updateOptions)
+          }
+        />
+      </div>
+      <div className="flex min-w-[150px] flex-col gap-2">
+        <label className="text-xs text-slate-500" htmlFor="filterCompare">
+          Bandingkan
+        </label>
+        <Select
+          value={filters.compare}
+          onValueChange={(compare) =>
+            onChange({
+              compare: compare as ComparePreset,
+              compareFrom: compare === "custom" ? filters.compareFrom : "",
+              compareTo: compare === "custom" ? filters.compareTo : "",
+            })
+          }
+        >
+          <SelectTrigger id="filterCompare">
+            <SelectValue placeholder="Bandingkan" />
+          </SelectTrigger>
+          <SelectContent>
+            {COMPARE_PRESETS.map((preset) => (
+              <SelectItem key={preset.value} value={preset.value}>
+                {preset.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {filters.compare !== "none" ? (
+        <>
+          <div className="flex min-w-[150px] flex-col gap-2">
+            <label
+              className="text-xs text-slate-500"
+              htmlFor="filterCompareFrom"
+            >
+              Pembanding dari
+            </label>
+            <DateInput
+              id="filterCompareFrom"
+              value={comparison?.dateFrom ?? filters.compareFrom}
+              max={comparison?.dateTo || today}
+              onCommit={(value, updateOptions) =>
+                handleCompareDateChange({ compareFrom: value }, updateOptions)
+              }
+            />
+          </div>
+          <div className="flex min-w-[150px] flex-col gap-2">
+            <label className="text-xs text-slate-500" htmlFor="filterCompareTo">
+              Pembanding sampai
+            </label>
+            <DateInput
+              id="filterCompareTo"
+              value={comparison?.dateTo ?? filters.compareTo}
+              min={comparison?.dateFrom || undefined}
+              max={today}
+              onCommit={(value, updateOptions) =>
+                handleCompareDateChange({ compareTo: value }, updateOptions)
+              }
+            />
+          </div>
+        </>
+      ) : null}
+      {FACET_KEYS.map((key) => (
+        <FacetFilter
+          key={key}
+          id={`filter-${key}`}
+          label={FACET_LABELS[key]}
+          options={options[key]}
+          counts={counts[key]}
+          selected={filters[key]}
+          onChange={(selected) => onChange({ [key]: selected })}
+        />
+      ))}
+      <Button variant="outline" onClick={onReset}>
+        Reset filter
+      </Button>
+      <Button onClick={onRefresh}>Refresh data</Button>
+    </section>
+  );
+};
+
+export default FilterBar;
@@ -0,0 +1,132 @@
+import { X } from "lucide-react";
+import { COMPARE_PRESETS, DATE_RANGE_PRESETS } from "../lib/dateRange";
+import {
+  FACET_KEYS,
+  FACET_LABELS,
+  createDefaultFilters,
+  resolveComparisonDates,
+  resolveFilterDates,
+} from "../lib/filters";
+import type { CoverageFilters } from "../types/filters";
+
+type FilterChipsProps = {
+  filters: CoverageFilters;
+  onChange: (patch: Partial<CoverageFilters>) => void;
+};
+
+type Chip = {
+  key: string;
+  label: string;
+  patch: Partial<CoverageFilters>;
+};
+
+const formatShortDate = (value: string) => {
+  if (!value) return "…";
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime())) return value;
+  return parsed.toLocaleDateString("id-ID", {
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+};
+
+const formatRange = ({
+  dateFrom,
+  dateTo,
+}: {
+  dateFrom: string;
+  dateTo: string;
+}) =>
+  dateFrom === dateTo
+    ? formatShortDate(dateFrom)
+    : `${formatShortDate(dateFrom)} – ${formatShortDate(dateTo)}`;
+
+const buildChips = (filters: CoverageFilters): Chip[] => {
+  const defaults = createDefaultFilters();
+  const chips: Chip[] = [];
+
+  if (filters.range !== defaults.range) {
+    chips.push({
+      key: "range",
+      label: `Periode: ${
+        filters.range === "custom"
+          ? formatRange(resolveFilterDates(filters))
+          : DATE_RANGE_PRESETS.find((preset) => preset.value === filters.range)
+              ?.label
+      }`,
+      patch: {
+        range: defaults.range,
+        dateFrom: defaults.dateFrom,
+        dateTo: defaults.dateTo,
+      },
+    });
+  }
+
+  if (filters.compare !== defaults.compare) {
+    const comparison = resolveComparisonDates(filters);
+    chips.push({
+      key: "compare",
+      label: `Pembanding: ${
+        comparison
+          ? formatRange(comparison)
+          : COMPARE_PRESETS.find((preset) => preset.value === filters.compare)
+              ?.label
+      }`,
+      patch: {
+        compare: defaults.compare,
+        compareFrom: defaults.compareFrom,
+        compareTo: defaults.compareTo,
+      },
+    });
+  }
+
+  FACET_KEYS.forEach((key) => {
+    filters[key].forEach((value) => {
+      chips.push({
+        key: `${key}:${value}`,
+        label: `${FACET_LABELS[key]}: ${value}`,
+        patch: { [key]: filters[key].filter((item) => item !== value) },
+      });
+    });
+  });
+
+  if (filters.query) {
+    chips.push({
+      key: "query",
+      label: `Query: ${filters.query}`,
+      patch: { query: defaults.query },
+    });
+  }
+
+  return chips;
+};
+
+const FilterChips = ({ filters, onChange }: FilterChipsProps) => {
+  const chips = buildChips(filters);
+  if (chips.length === 0) return null;
+
+  return (
+    <div className="flex w-full flex-wrap items-center gap-2">
+      {chips.map((chip) => (
+        <span
+          key={chip.key}
+          className="inline-flex max-w-full items-center gap-1 rounded-full border bg-white py-1 pl-3 pr-1 text-xs text-slate-700 shadow-sm"
+        >
+          <span className="truncate">{chip.label}</span>
+          <button
+            type="button"
+            className="rounded-full p-0.5 text-slate-400 hover:bg-slate-100 hover:text-slate-700"
+            onClick={() => onChange(chip.patch)}
+            aria-label={`Hapus filter ${chip.label}`}
+          >
+            <X className="h-3.5 w-3.5" />
+          </button>
+        </span>
+      ))}
+    </div>
+  );
+};
+
+export default FilterChips;
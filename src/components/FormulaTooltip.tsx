@@ -0,0 +1,29 @@
+import { Info } from "lucide-react";
+
+type FormulaTooltipProps = {
+  formulas: string[];
+};
+
+const FormulaTooltip = ({ formulas }: FormulaTooltipProps) => (
+  <span className="group relative inline-flex">
+    <button
+      type="button"
+      className="text-slate-400 hover:text-slate-600"
+      aria-label="Lihat rumus"
+    >
+      <Info className="h-4 w-4" />
+    </button>
+    <span
+      role="tooltip"
+      className="pointer-events-none absolute right-0 top-6 z-20 hidden w-80 space-y-2 rounded-xl border bg-white p-3 text-xs font-normal text-slate-600 shadow-lg group-focus-within:block group-hover:block"
+    >
+      {formulas.map((formula) => (
+        <span key={formula} className="block">
+          {formula}
+        </span>
+      ))}
+    </span>
+  </span>
+);
+
+export default FormulaTooltip;
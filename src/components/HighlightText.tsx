@@ -0,0 +1,28 @@
+import { Fragment } from "react";
+import { findMatches } from "../lib/search";
+
+type HighlightTextProps = {
+  text: string;
+  terms: string[];
+};
+
+const HighlightText = ({ text, terms }: HighlightTextProps) => {
+  const ranges = findMatches(text, terms);
+  if (ranges.length === 0) return <>{text}</>;
+
+  return (
+    <>
+      {ranges.map((range, index) => (
+        <Fragment key={range.start}>
+          {text.slice(index ? ranges[index - 1].end : 0, range.start)}
+          <mark className="rounded bg-amber-100 px-0.5 text-slate-900">
+            {text.slice(range.start, range.end)}
+          </mark>
+        </Fragment>
+      ))}
+      {text.slice(ranges[ranges.length - 1].end)}
+    </>
+  );
+};
+
+export default HighlightText;
@@ -0,0 +1,74 @@
+import { Badge } from "./ui/badge";
+import { Card } from "./ui/card";
+import type { CoverageArticle } from "../types/coverage";
+
+type LatestArticlesProps = {
+  articles: CoverageArticle[];
+  title?: string;
+  showMedia?: boolean;
+};
+
+const formatDate = (value: string) => {
+  if (!value) return "-";
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime())) return value;
+  return parsed.toLocaleDateString("id-ID", {
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+  });
+};
+
+const LatestArticles = ({
+  articles,
+  title = "Pemberitaan Terbaru",
+  showMedia = false,
+}: LatestArticlesProps) => (
+  <Card className="rounded-2xl border bg-white shadow-sm">
+    <div className="p-6 pb-2">
+      <h3>{title}</h3>
+    </div>
+    <ul className="divide-y px-6 pb-4">
+      {articles.map((article) => (
+        <li
+          key={article.id}
+          className="flex flex-wrap items-center justify-between gap-3 py-3"
+        >
+          <div className="min-w-0 flex-1 space-y-1">
+            <p className="text-sm font-medium text-slate-900">
+              {article.url ? (
+                <a
+                  href={article.url}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="hover:underline"
+                >
+                  {article.title}
+                </a>
+              ) : (
+                article.title
+              )}
+            </p>
+            <p className="text-xs text-slate-500">
+              {formatDate(article.publishedDate)}
+              {showMedia ? ` · ${article.media}` : ""} · {article.topic}
+            </p>
+          </div>
+          <Badge
+            variant={
+              article.sentiment === "Negatif"
+                ? "destructive"
+                : article.sentiment === "Positif"
+                  ? "success"
+                  : "outline"
+            }
+          >
+            {article.toneLabel}
+          </Badge>
+        </li>
+      ))}
+    </ul>
+  </Card>
+);
+
+export default LatestArticles;
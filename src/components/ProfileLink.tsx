@@ -0,0 +1,26 @@
+import { Link, useLocation } from "react-router-dom";
+import { parseFilters, toFilterParams } from "../lib/filters";
+
+type ProfileLinkProps = {
+  to: string;
+  className?: string;
+  children: React.ReactNode;
+};
+
+const ProfileLink = ({ to, className, children }: ProfileLinkProps) => {
+  const location = useLocation();
+  const search = toFilterParams(
+    parseFilters(new URLSearchParams(location.search)),
+  ).toString();
+
+  return (
+    <Link
+      to={{ pathname: to, search }}
+      className={className ?? "hover:text-sky-600 hover:underline"}
+    >
+      {children}
+    </Link>
+  );
+};
+
+export default ProfileLink;
@@ -0,0 +1,74 @@
+import { Search } from "lucide-react";
+import { Input } from "./ui/input";
+import type { QuerySyntaxError } from "../lib/query";
+import { useDraftValue } from "../lib/useDraftValue";
+import type { FilterUpdateOptions } from "../types/filters";
+
+type QueryInputProps = {
+  value: string;
+  error: QuerySyntaxError | null;
+  onChange: (value: string, options: FilterUpdateOptions) => void;
+};
+
+const QUERY_EXAMPLES = [
+  ['tarif "bea masuk" -impor', "Teks bebas, frasa, dan pengecualian"],
+  ["media:kompas tone:negatif", "Filter per field"],
+  ['topik:"harga BBM" OR topik:subsidi', "Gabungkan dengan OR"],
+  ['-spokesperson:"-"', "Hanya artikel dengan spokesperson"],
+  ["(media:kompas OR media:tempo) NOT tone:positif", "Kurung dan NOT"],
+  ["after:2025-06-01 before:2025-06-30", "Rentang tanggal"],
+  ["tanggal:2025-06-01..2025-06-15", "Rentang tanggal dengan .."],
+];
+
+const QueryInput = ({ value, error, onChange }: QueryInputProps) => {
+  const { draft, change, flush } = useDraftValue(value, onChange);
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <Search className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-slate-400" />
+        <Input
+          type="search"
+          className={`pl-9 ${error ? "border-rose-400 focus-visible:ring-rose-300" : ""}`}
+          value={draft}
+          onChange={(event) => change(event.target.value)}
+          onBlur={flush}
+          onKeyDown={(event) => {
+            if (event.key === "Enter") flush();
+          }}
+          placeholder="Cari atau filter… (contoh: tarif media:kompas -tone:positif)"
+          aria-label="Cari pemberitaan"
+          aria-invalid={Boolean(error)}
+          spellCheck={false}
+        />
+      </div>
+      {error ? (
+        <div className="text-xs text-rose-600" role="alert">
+          <p>{error.message}</p>
+          <pre className="mt-1 overflow-x-auto font-mono text-slate-500">
+            {value}
+            {"\n"}
+            <span className="text-rose-600">{" ".repeat(error.position)}^</span>
+          </pre>
+        </div>
+      ) : null}
+      <details className="text-xs text-slate-500">
+        <summary className="cursor-pointer select-none">
+          Bantuan sintaks
+        </summary>
+        <ul className="mt-2 space-y-1">
+          {QUERY_EXAMPLES.map(([example, description]) => (
+            <li key={example} className="flex flex-wrap gap-2">
+              <code className="rounded bg-slate-100 px-1.5 py-0.5 text-slate-700">
+                {example}
+              </code>
+              <span>{description}</span>
+            </li>
+          ))}
+        </ul>
+      </details>
+    </div>
+  );
+};
+
+export default QueryInput;
@@ -0,0 +1,40 @@
+import { ArrowDown, ArrowUp, Minus } from "lucide-react";
+
+type RankMovementProps = {
+  movement: number | null | undefined;
+};
+
+const RankMovement = ({ movement }: RankMovementProps) => {
+  if (movement === undefined) return null;
+
+  if (movement === null) {
+    return (
+      <span className="text-[10px] font-semibold uppercase text-sky-600">
+        Baru
+      </span>
+    );
+  }
+
+  if (movement === 0) {
+    return (
+      <span className="inline-flex items-center text-slate-400" title="Tetap">
+        <Minus className="h-3 w-3" />
+      </span>
+    );
+  }
+
+  const Icon = movement > 0 ? ArrowUp : ArrowDown;
+  return (
+    <span
+      className={`inline-flex items-center gap-0.5 text-[10px] font-semibold ${
+        movement > 0 ? "text-emerald-600" : "text-rose-600"
+      }`}
+      title={`${movement > 0 ? "Naik" : "Turun"} ${Math.abs(movement)} peringkat`}
+    >
+      <Icon className="h-3 w-3" />
+      {Math.abs(movement)}
+    </span>
+  );
+};
+
+export default RankMovement;
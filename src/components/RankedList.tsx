@@ -0,0 +1,51 @@
+import ProfileLink from "./ProfileLink";
+import { Card } from "./ui/card";
+import type { DistributionPoint } from "../types/dashboard";
+
+type RankedListProps = {
+  title: string;
+  items: DistributionPoint[];
+  getHref?: (name: string) => string;
+};
+
+const RankedList = ({ title, items, getHref }: RankedListProps) => {
+  const max = Math.max(1, ...items.map((item) => item.value));
+
+  return (
+    <Card className="rounded-2xl border bg-white shadow-sm">
+      <div className="p-6 pb-2">
+        <h3>{title}</h3>
+      </div>
+      <div className="space-y-3 px-6 pb-6 pt-2">
+        {items.length === 0 ? (
+          <p className="text-sm text-slate-500">Belum ada data.</p>
+        ) : (
+          items.map((item) => (
+            <div key={item.name} className="space-y-1">
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-xs font-medium text-slate-900">
+                  {getHref ? (
+                    <ProfileLink to={getHref(item.name)}>
+                      {item.name}
+                    </ProfileLink>
+                  ) : (
+                    item.name
+                  )}
+                </span>
+                <span className="text-slate-500">{item.value}</span>
+              </div>
+              <div className="h-2 rounded-full bg-sky-50">
+                <div
+                  className="h-2 rounded-full bg-sky-500"
+                  style={{ width: `${(item.value / max) * 100}%` }}
+                />
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </Card>
+  );
+};
+
+export default RankedList;
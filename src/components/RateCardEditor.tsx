@@ -0,0 +1,231 @@
+import { useState } from "react";
+import { Trash2 } from "lucide-react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { DEFAULT_RATE_KEY } from "../lib/prValue";
+import { SENTIMENT_LABELS } from "../types/coverage";
+import { MEDIA_TIERS } from "../types/mediaRegistry";
+import type { RateCard } from "../types/prValue";
+
+type RateCardEditorProps = {
+  rateCard: RateCard;
+  mediaOptions: string[];
+  onChange: (rateCard: RateCard) => void;
+  onReset: () => void;
+};
+
+const RATE_KEYS = [DEFAULT_RATE_KEY, ...MEDIA_TIERS];
+
+const AmountInput = ({
+  id,
+  label,
+  value,
+  step = 1000,
+  allowNegative = false,
+  onChange,
+}: {
+  id: string;
+  label: string;
+  value: number;
+  step?: number;
+  allowNegative?: boolean;
+  onChange: (value: number) => void;
+}) => (
+  <div className="flex items-center justify-between gap-3">
+    <label className="text-xs text-slate-600" htmlFor={id}>
+      {label}
+    </label>
+    <Input
+      id={id}
+      type="number"
+      min={allowNegative ? undefined : 0}
+      step={step}
+      className="h-8 w-32 text-right text-xs"
+      value={value}
+      onChange={(event) => {
+        const next = Number(event.target.value);
+        if (Number.isFinite(next) && (allowNegative || next >= 0)) {
+          onChange(next);
+        }
+      }}
+    />
+  </div>
+);
+
+const RateCardEditor = ({
+  rateCard,
+  mediaOptions,
+  onChange,
+  onReset,
+}: RateCardEditorProps) => {
+  const [media, setMedia] = useState("");
+  const availableMedia = mediaOptions.filter(
+    (option) => !(option in rateCard.media),
+  );
+
+  return (
+    <details className="rounded-xl border bg-slate-50 p-3 text-sm">
+      <summary className="cursor-pointer select-none text-xs font-medium text-slate-600">
+        Atur rate card
+      </summary>
+      <div className="mt-3 grid gap-4 md:grid-cols-2 xl:grid-cols-4">
+        <div className="space-y-2">
+          <p className="text-xs font-semibold text-slate-500">
+            Online (Rp per artikel)
+          </p>
+          {RATE_KEYS.map((key) => (
+            <AmountInput
+              key={key}
+              id={`rate-online-${key}`}
+              label={key}
+              value={rateCard.online[key] ?? 0}
+              onChange={(value) =>
+                onChange({
+                  ...rateCard,
+                  online: { ...rateCard.online, [key]: value },
+                })
+              }
+            />
+          ))}
+        </div>
+        <div className="space-y-2">
+          <p className="text-xs font-semibold text-slate-500">
+            Cetak (Rp per kolom-cm)
+          </p>
+          {RATE_KEYS.map((key) => (
+            <AmountInput
+              key={key}
+              id={`rate-print-${key}`}
+              label={key}
+              value={rateCard.print[key] ?? 0}
+              onChange={(value) =>
+                onChange({
+                  ...rateCard,
+                  print: { ...rateCard.print, [key]: value },
+                })
+              }
+            />
+          ))}
+          <AmountInput
+            id="rate-default-column"
+            label="Ukuran default (kolom-cm)"
+            value={rateCard.defaultColumnCm}
+            step={1}
+            onChange={(defaultColumnCm) =>
+              onChange({ ...rateCard, defaultColumnCm })
+            }
+          />
+        </div>
+        <div className="space-y-2">
+          <p className="text-xs font-semibold text-slate-500">
+            Pengali tone (PR value)
+          </p>
+          {SENTIMENT_LABELS.map((label) => (
+            <AmountInput
+              key={label}
+              id={`rate-tone-${label}`}
+              label={label}
+              value={rateCard.toneMultipliers[label]}
+              step={0.5}
+              allowNegative
+              onChange={(value) =>
+                onChange({
+                  ...rateCard,
+                  toneMultipliers: {
+                    ...rateCard.toneMultipliers,
+                    [label]: value,
+                  },
+                })
+              }
+            />
+          ))}
+        </div>
+        <div className="space-y-2">
+          <p className="text-xs font-semibold text-slate-500">
+            Tarif per media
+          </p>
+          {Object.entries(rateCard.media).map(([name, value]) => (
+            <div key={name} className="flex items-center gap-1">
+              <div className="flex-1">
+                <AmountInput
+                  id={`rate-media-${name}`}
+                  label={name}
+                  value={value}
+                  onChange={(amount) =>
+                    onChange({
+                      ...rateCard,
+                      media: { ...rateCard.media, [name]: amount },
+                    })
+                  }
+                />
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                aria-label={`Hapus tarif ${name}`}
+                onClick={() =>
+                  onChange({
+                    ...rateCard,
+                    media: Object.fromEntries(
+                      Object.entries(rateCard.media).filter(
+                        ([key]) => key !== name,
+                      ),
+                    ),
+                  })
+                }
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+          ))}
+          <div className="flex gap-2">
+            <Select value={media} onValueChange={setMedia}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue placeholder="Pilih media" />
+              </SelectTrigger>
+              <SelectContent>
+                {availableMedia.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {option}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={!media}
+              onClick={() => {
+                onChange({
+                  ...rateCard,
+                  media: { ...rateCard.media, [media]: 0 },
+                });
+                setMedia("");
+              }}
+            >
+              Tambah
+            </Button>
+          </div>
+          <p className="text-xs text-slate-400">
+            Tarif media menggantikan tarif tier sesuai jenis media.
+          </p>
+        </div>
+      </div>
+      <div className="mt-3 flex justify-end">
+        <Button variant="outline" size="sm" onClick={onReset}>
+          Kembalikan rate card default
+        </Button>
+      </div>
+    </details>
+  );
+};
+
+export default RateCardEditor;
@@ -0,0 +1,202 @@
+import { useRef, useState } from "react";
+import { useLocation, useNavigate } from "react-router-dom";
+import { Check, Download, Pencil, Star, Trash2, Upload } from "lucide-react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { downloadFile } from "../lib/exportFile";
+import {
+  parseSavedViewsImport,
+  useSavedViews,
+  viewUrl,
+} from "../lib/savedViews";
+
+const SavedViewsPanel = () => {
+  const location = useLocation();
+  const navigate = useNavigate();
+  const {
+    views,
+    defaultViewId,
+    saveView,
+    renameView,
+    deleteView,
+    toggleDefaultView,
+    importViews,
+  } = useSavedViews();
+  const [name, setName] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleSave = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    saveView(trimmed, location.pathname, location.search.replace(/^\?/, ""));
+    setName("");
+  };
+
+  const handleRename = (id: string) => {
+    const trimmed = editingName.trim();
+    if (trimmed) {
+      renameView(id, trimmed);
+    }
+    setEditingId(null);
+  };
+
+  const handleExport = () =>
+    downloadFile(
+      JSON.stringify({ views }, null, 2),
+      "medmon-saved-views.json",
+      "application/json",
+    );
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    try {
+      const imported = parseSavedViewsImport(await file.text());
+      importViews(imported);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Import gagal.");
+    }
+  };
+
+  return (
+    <div className="saved-views space-y-3">
+      <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+        Saved views
+      </p>
+      <form className="flex gap-2" onSubmit={handleSave}>
+        <Input
+          className="h-9"
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          placeholder="Nama view"
+          aria-label="Nama view"
+        />
+        <Button size="sm" type="submit" disabled={!name.trim()}>
+          Simpan
+        </Button>
+      </form>
+      {views.length === 0 ? (
+        <p className="text-xs text-slate-400">Belum ada view tersimpan.</p>
+      ) : (
+        <ul className="space-y-1">
+          {views.map((view) => (
+            <li key={view.id} className="flex items-center gap-1 text-xs">
+              {editingId === view.id ? (
+                <>
+                  <Input
+                    className="h-8 text-xs"
+                    value={editingName}
+                    autoFocus
+                    onChange={(event) => setEditingName(event.target.value)}
+                    onKeyDown={(event) => {
+                      if (event.key === "Enter") handleRename(view.id);
+                      if (event.key === "Escape") setEditingId(null);
+                    }}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => handleRename(view.id)}
+                    aria-label="Simpan nama"
+                  >
+                    <Check className="h-3.5 w-3.5" />
+                  </Button>
+                </>
+              ) : (
+                <>
+                  <button
+                    type="button"
+                    className="flex-1 truncate rounded-md px-2 py-1.5 text-left font-medium hover:bg-slate-50"
+                    onClick={() => navigate(viewUrl(view))}
+                    title={viewUrl(view)}
+                  >
+                    {view.name}
+                  </button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => toggleDefaultView(view.id)}
+                    aria-label="Jadikan view default"
+                    title="Jadikan view default"
+                  >
+                    <Star
+                      className={`h-3.5 w-3.5 ${
+                        defaultViewId === view.id
+                          ? "fill-amber-400 text-amber-400"
+                          : ""
+                      }`}
+                    />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => {
+                      setEditingId(view.id);
+                      setEditingName(view.name);
+                    }}
+                    aria-label="Ubah nama view"
+                  >
+                    <Pencil className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => deleteView(view.id)}
+                    aria-label="Hapus view"
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="flex gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          className="flex-1"
+          onClick={() => fileInputRef.current?.click()}
+        >
+          <Upload className="h-3.5 w-3.5" />
+          Import
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="flex-1"
+          onClick={handleExport}
+          disabled={views.length === 0}
+        >
+          <Download className="h-3.5 w-3.5" />
+          Export
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={handleImport}
+        />
+      </div>
+      {error ? (
+        <p className="text-xs text-rose-500" role="alert">
+          {error}
+        </p>
+      ) : null}
+    </div>
+  );
+};
+
+export default SavedViewsPanel;
@@ -0,0 +1,197 @@
+import { useMemo } from "react";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import FormulaTooltip from "./FormulaTooltip";
+import SentimentWeightsEditor from "./SentimentWeightsEditor";
+import { Card } from "./ui/card";
+import { formatPeriod, periodStart } from "../lib/dateRange";
+import {
+  NET_SENTIMENT_FORMULA,
+  REACH_WEIGHTED_FORMULA,
+  WEIGHTED_INDEX_FORMULA,
+  sentimentIndexBy,
+  useSentimentWeights,
+} from "../lib/sentimentIndex";
+import type { CoverageArticle } from "../types/coverage";
+import type { TrendGranularity } from "../types/filters";
+
+type SentimentIndexSectionProps = {
+  articles: CoverageArticle[];
+  granularity: TrendGranularity;
+};
+
+const INDEX_FORMULAS = [
+  NET_SENTIMENT_FORMULA,
+  WEIGHTED_INDEX_FORMULA,
+  REACH_WEIGHTED_FORMULA,
+];
+
+const SentimentIndexSection = ({
+  articles,
+  granularity,
+}: SentimentIndexSectionProps) => {
+  const { weights, updateWeights, resetWeights } = useSentimentWeights();
+
+  const trend = useMemo(
+    () =>
+      sentimentIndexBy(
+        articles,
+        (row) =>
+          row.publishedDate ? periodStart(row.publishedDate, granularity) : "",
+        weights,
+      ).sort((a, b) => a.period.localeCompare(b.period)),
+    [articles, granularity, weights],
+  );
+
+  const byCompany = useMemo(
+    () =>
+      sentimentIndexBy(articles, (row) => row.company, weights).sort(
+        (a, b) => b.volume - a.volume,
+      ),
+    [articles, weights],
+  );
+
+  const hasReach = byCompany.some((item) => item.reachWeighted !== null);
+
+  const tiers = useMemo(
+    () =>
+      Array.from(
+        new Set([
+          ...Object.keys(weights.tiers),
+          ...articles.map((row) => row.mediaTier).filter(Boolean),
+        ]),
+      ).sort(),
+    [articles, weights.tiers],
+  );
+
+  return (
+    <section className="mt-4 space-y-4">
+      <div className="grid gap-4 lg:grid-cols-2">
+        <Card className="rounded-2xl border bg-white shadow-sm">
+          <div className="flex items-center justify-between gap-3 p-6 pb-2">
+            <div className="space-y-1">
+              <h3>Indeks Sentimen</h3>
+              <span className="text-xs text-slate-400">
+                Net Sentiment Score dan indeks berbobot
+              </span>
+            </div>
+            <FormulaTooltip formulas={INDEX_FORMULAS} />
+          </div>
+          <div className="h-[280px] w-full px-6 pb-6">
+            <ResponsiveContainer width="100%" height={260}>
+              <LineChart
+                data={trend}
+                margin={{ top: 10, right: 16, left: -10, bottom: 0 }}
+              >
+                <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                <XAxis
+                  dataKey="period"
+                  tickFormatter={(value) => formatPeriod(value, granularity)}
+                />
+                <YAxis domain={[-100, 100]} />
+                <ReferenceLine y={0} stroke="#94a3b8" />
+                <Tooltip
+                  labelFormatter={(label) => formatPeriod(label, granularity)}
+                />
+                <Legend />
+                <Line
+                  type="monotone"
+                  dataKey="netScore"
+                  name="NSS"
+                  stroke="#0ea5e9"
+                  strokeWidth={2}
+                  dot={false}
+                />
+                <Line
+                  type="monotone"
+                  dataKey="weightedIndex"
+                  name="Indeks berbobot"
+                  stroke="#a855f7"
+                  strokeWidth={2}
+                  dot={false}
+                />
+                {hasReach ? (
+                  <Line
+                    type="monotone"
+                    dataKey="reachWeighted"
+                    name="Tertimbang jangkauan"
+                    stroke="#14b8a6"
+                    strokeWidth={2}
+                    dot={false}
+                    connectNulls
+                  />
+                ) : null}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </Card>
+
+        <Card className="rounded-2xl border bg-white shadow-sm">
+          <div className="flex items-center justify-between gap-3 p-6 pb-2">
+            <div className="space-y-1">
+              <h3>Indeks per Perusahaan</h3>
+              <span className="text-xs text-slate-400">
+                Skala −100 sampai 100
+              </span>
+            </div>
+            <FormulaTooltip formulas={INDEX_FORMULAS} />
+          </div>
+          <div className="h-[280px] w-full px-6 pb-6">
+            <ResponsiveContainer width="100%" height={260}>
+              <BarChart
+                data={byCompany}
+                margin={{ top: 10, right: 16, left: -10, bottom: 0 }}
+              >
+                <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                <XAxis dataKey="period" />
+                <YAxis domain={[-100, 100]} />
+                <ReferenceLine y={0} stroke="#94a3b8" />
+                <Tooltip />
+                <Legend />
+                <Bar
+                  dataKey="netScore"
+                  name="NSS"
+                  fill="#0ea5e9"
+                  radius={[4, 4, 0, 0]}
+                />
+                <Bar
+                  dataKey="weightedIndex"
+                  name="Indeks berbobot"
+                  fill="#a855f7"
+                  radius={[4, 4, 0, 0]}
+                />
+                {hasReach ? (
+                  <Bar
+                    dataKey="reachWeighted"
+                    name="Tertimbang jangkauan"
+                    fill="#14b8a6"
+                    radius={[4, 4, 0, 0]}
+                  />
+                ) : null}
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </Card>
+      </div>
+      <SentimentWeightsEditor
+        weights={weights}
+        tiers={tiers}
+        onChange={updateWeights}
+        onReset={resetWeights}
+      />
+    </section>
+  );
+};
+
+export default SentimentIndexSection;
@@ -0,0 +1,115 @@
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import type { MediaType } from "../types/coverage";
+import type { SentimentWeights } from "../types/sentimentIndex";
+
+type SentimentWeightsEditorProps = {
+  weights: SentimentWeights;
+  tiers: string[];
+  onChange: (weights: SentimentWeights) => void;
+  onReset: () => void;
+};
+
+const MEDIA_TYPES: MediaType[] = ["Online", "Cetak"];
+
+const WeightInput = ({
+  id,
+  label,
+  value,
+  onChange,
+}: {
+  id: string;
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+}) => (
+  <div className="flex items-center justify-between gap-3">
+    <label className="text-xs text-slate-600" htmlFor={id}>
+      {label}
+    </label>
+    <Input
+      id={id}
+      type="number"
+      min={0}
+      step={0.1}
+      className="h-8 w-20 text-right text-xs"
+      value={value}
+      onChange={(event) => {
+        const next = Number(event.target.value);
+        if (Number.isFinite(next) && next >= 0) onChange(next);
+      }}
+    />
+  </div>
+);
+
+const SentimentWeightsEditor = ({
+  weights,
+  tiers,
+  onChange,
+  onReset,
+}: SentimentWeightsEditorProps) => (
+  <details className="rounded-xl border bg-slate-50 p-3 text-sm">
+    <summary className="cursor-pointer select-none text-xs font-medium text-slate-600">
+      Atur bobot indeks
+    </summary>
+    <div className="mt-3 grid gap-4 md:grid-cols-3">
+      <div className="space-y-2">
+        <p className="text-xs font-semibold text-slate-500">Tier media</p>
+        {tiers.map((tier) => (
+          <WeightInput
+            key={tier}
+            id={`weight-tier-${tier}`}
+            label={tier}
+            value={weights.tiers[tier] ?? 1}
+            onChange={(value) =>
+              onChange({
+                ...weights,
+                tiers: { ...weights.tiers, [tier]: value },
+              })
+            }
+          />
+        ))}
+        <p className="text-xs text-slate-400">Media tanpa tier berbobot 1.</p>
+      </div>
+      <div className="space-y-2">
+        <p className="text-xs font-semibold text-slate-500">Jenis media</p>
+        {MEDIA_TYPES.map((type) => (
+          <WeightInput
+            key={type}
+            id={`weight-type-${type}`}
+            label={type}
+            value={weights.mediaType[type]}
+            onChange={(value) =>
+              onChange({
+                ...weights,
+                mediaType: { ...weights.mediaType, [type]: value },
+              })
+            }
+          />
+        ))}
+      </div>
+      <div className="space-y-2">
+        <p className="text-xs font-semibold text-slate-500">Subjek berita</p>
+        <WeightInput
+          id="weight-main-subject"
+          label="Klien subjek utama"
+          value={weights.mainSubject}
+          onChange={(mainSubject) => onChange({ ...weights, mainSubject })}
+        />
+        <WeightInput
+          id="weight-other-subject"
+          label="Klien disebut saja"
+          value={weights.otherSubject}
+          onChange={(otherSubject) => onChange({ ...weights, otherSubject })}
+        />
+      </div>
+    </div>
+    <div className="mt-3 flex justify-end">
+      <Button variant="outline" size="sm" onClick={onReset}>
+        Kembalikan bobot default
+      </Button>
+    </div>
+  </details>
+);
+
+export default SentimentWeightsEditor;
@@ -0,0 +1,125 @@
+import { addDays } from "./dateRange";
+import type { CoverageArticle } from "../types/coverage";
+import type {
+  Anomaly,
+  AnomalyMetric,
+  AnomalySensitivity,
+} from "../types/anomalies";
+
+export const ANOMALY_SENSITIVITIES: {
+  value: AnomalySensitivity;
+  label: string;
+  threshold: number;
+}[] = [
+  { value: "low", label: "Rendah", threshold: 4 },
+  { value: "medium", label: "Sedang", threshold: 3 },
+  { value: "high", label: "Tinggi", threshold: 2 },
+];
+
+export const ANOMALY_METRIC_LABELS: Record<AnomalyMetric, string> = {
+  volume: "Lonjakan volume",
+  negativeShare: "Lonjakan porsi negatif",
+};
+
+const BASELINE_DAYS = 28;
+const MIN_HISTORY = 7;
+const MIN_NEGATIVE_VOLUME = 3;
+const MIN_SCALE: Record<AnomalyMetric, number> = {
+  volume: 1,
+  negativeShare: 0.15,
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+// Modified z-score: distance from the rolling median in units of scaled MAD,
+// falling back to the mean absolute deviation when most days are identical.
+const robustScore = (
+  value: number,
+  history: number[],
+  metric: AnomalyMetric,
+) => {
+  const center = median(history);
+  const deviations = history.map((item) => Math.abs(item - center));
+  const mad = median(deviations) * 1.4826;
+  const meanDeviation =
+    (deviations.reduce((sum, item) => sum + item, 0) / deviations.length) *
+    1.2533;
+  const scale = Math.max(mad || meanDeviation, MIN_SCALE[metric]);
+  return { baseline: center, score: (value - center) / scale };
+};
+
+export const detectAnomalies = (
+  rows: CoverageArticle[],
+  sensitivity: AnomalySensitivity,
+): Anomaly[] => {
+  const threshold =
+    ANOMALY_SENSITIVITIES.find((level) => level.value === sensitivity)
+      ?.threshold ?? 3;
+
+  const daily = new Map<string, { volume: number; negative: number }>();
+  rows.forEach((row) => {
+    if (!row.publishedDate) return;
+    const entry = daily.get(row.publishedDate) ?? { volume: 0, negative: 0 };
+    entry.volume += 1;
+    if (row.sentiment === "Negatif") entry.negative += 1;
+    daily.set(row.publishedDate, entry);
+  });
+
+  const dates = Array.from(daily.keys()).sort();
+  const series: { date: string; volume: number; negative: number }[] = [];
+  for (
+    let date = dates[0];
+    date && date <= dates[dates.length - 1];
+    date = addDays(date, 1)
+  ) {
+    series.push({ date, ...(daily.get(date) ?? { volume: 0, negative: 0 }) });
+  }
+
+  const anomalies: Anomaly[] = [];
+  series.forEach((point, index) => {
+    const history = series.slice(Math.max(0, index - BASELINE_DAYS), index);
+    if (history.length < MIN_HISTORY) return;
+
+    const volume = robustScore(
+      point.volume,
+      history.map((item) => item.volume),
+      "volume",
+    );
+    if (volume.score >= threshold) {
+      anomalies.push({
+        date: point.date,
+        metric: "volume",
+        value: point.volume,
+        ...volume,
+      });
+    }
+
+    const shareHistory = history
+      .filter((item) => item.volume > 0)
+      .map((item) => item.negative / item.volume);
+    if (
+      point.volume < MIN_NEGATIVE_VOLUME ||
+      shareHistory.length < MIN_HISTORY
+    ) {
+      return;
+    }
+    const share = point.negative / point.volume;
+    const negativeShare = robustScore(share, shareHistory, "negativeShare");
+    if (negativeShare.score >= threshold) {
+      anomalies.push({
+        date: point.date,
+        metric: "negativeShare",
+        value: share,
+        ...negativeShare,
+      });
+    }
+  });
+
+  return anomalies;
+};
@@ -0,0 +1,108 @@
+import { useState } from "react";
+import {
+  countSentiments,
+  groupBy,
+  netSentimentScore,
+} from "./coverageSelectors";
+import type { CoverageArticle } from "../types/coverage";
+
+export const CLIENT_COMPANY_STORAGE_KEY = "medmon-client-company";
+
+export const OTHER_COMPANIES = "Lainnya";
+
+const MIN_TOPIC_VOLUME = 2;
+
+const share = (count: number, total: number) =>
+  total ? Math.round((count / total) * 1000) / 10 : 0;
+
+export const shareOfVoiceByPeriod = (
+  rows: CoverageArticle[],
+  companies: string[],
+  getPeriod: (row: CoverageArticle) => string,
+) =>
+  Array.from(groupBy(rows, getPeriod).entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([period, items]) => {
+      const point: Record<string, string | number> = { period };
+      companies.forEach((company) => {
+        const count = items.filter((row) =>
+          company === OTHER_COMPANIES
+            ? !companies.includes(row.company)
+            : row.company === company,
+        ).length;
+        point[company] = share(count, items.length);
+      });
+      return point;
+    });
+
+export const toneMixByCompany = (rows: CoverageArticle[]) =>
+  Array.from(groupBy(rows, (row) => row.company).entries())
+    .map(([company, items]) => {
+      const counts = countSentiments(items);
+      return {
+        company,
+        total: items.length,
+        share: share(items.length, rows.length),
+        netScore: netSentimentScore(items),
+        Positif: share(counts.Positif, items.length),
+        Netral: share(counts.Netral, items.length),
+        Negatif: share(counts.Negatif, items.length),
+      };
+    })
+    .sort((a, b) => b.total - a.total);
+
+export const dominantOutlets = (rows: CoverageArticle[]) =>
+  Array.from(groupBy(rows, (row) => row.media).entries())
+    .map(([media, items]) => {
+      const [leader] = Array.from(
+        groupBy(items, (row) => row.company).entries(),
+      ).sort(([, a], [, b]) => b.length - a.length);
+      return {
+        media,
+        total: items.length,
+        company: leader[0],
+        share: share(leader[1].length, items.length),
+      };
+    })
+    .sort((a, b) => b.total - a.total);
+
+export const competitorTopicGaps = (
+  rows: CoverageArticle[],
+  clientCompany: string,
+) =>
+  Array.from(groupBy(rows, (row) => row.topic).entries())
+    .flatMap(([topic, items]) => {
+      const byCompany = groupBy(items, (row) => row.company);
+      const ours = byCompany.get(clientCompany) ?? [];
+      if (ours.length < MIN_TOPIC_VOLUME) return [];
+      const ourScore = netSentimentScore(ours);
+      return Array.from(byCompany.entries())
+        .filter(
+          ([company, theirs]) =>
+            company !== clientCompany &&
+            theirs.length >= MIN_TOPIC_VOLUME &&
+            netSentimentScore(theirs) > ourScore,
+        )
+        .map(([company, theirs]) => ({
+          topic,
+          company,
+          ourVolume: ours.length,
+          theirVolume: theirs.length,
+          ourScore,
+          theirScore: netSentimentScore(theirs),
+        }));
+    })
+    .sort((a, b) => b.theirScore - b.ourScore - (a.theirScore - a.ourScore));
+
+export const useClientCompany = () => {
+  const [clientCompany, setClientCompany] = useState(
+    () => window.localStorage.getItem(CLIENT_COMPANY_STORAGE_KEY) ?? "",
+  );
+
+  const updateClientCompany = (company: string) => {
+    window.localStorage.setItem(CLIENT_COMPANY_STORAGE_KEY, company);
+    setClientCompany(company);
+  };
+
+  return { clientCompany, updateClientCompany };
+};
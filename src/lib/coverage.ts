@@ -0,0 +1,455 @@
+import { toWibDate } from "./dateRange";
+import { normalizeSearchText } from "./search";
+import { normalizeSheetRow, type SheetApiRow } from "./publishedSheet";
+import type {
+  CoverageArticle,
+  MediaType,
+  SentimentLabel,
+} from "../types/coverage";
+import type { MediaTier } from "../types/mediaRegistry";
+
+const COLUMN_ALIASES = {
+  id: ["ID"],
+  date: ["TANGGAL", "DATE"],
+  media: ["MEDIA"],
+  title: ["HEADLINE", "JUDUL"],
+  summary: ["SUMMARY", "RINGKASAN"],
+  spokesperson: [
+    "SPOKESPERSON",
+    "SPOKEPERSON",
+    "SPOKES PERSON",
+    "SPOKE PERSON",
+    "JURU BICARA",
+    "JURU_BICARA",
+    "JURUBICARA",
+    "NARASUMBER",
+    "NARA SUMBER",
+    "JUBIR",
+  ],
+  mainframe: ["MAINFRAME"],
+  topic: ["TOPIK", "TOPIC"],
+  tone: ["TONE", "SENTIMEN", "SENTIMENT"],
+  url: ["LINK", "URL"],
+  company: ["COMPANY", "PERUSAHAAN"],
+  mediaType: ["JENIS", "MEDIA TYPE", "MEDIA_TYPE"],
+  mediaScope: ["SCOPE MEDIA", "SCOPE_MEDIA", "MEDIA SCOPE", "MEDIA_SCOPE"],
+  mediaTier: ["TIER", "TIER MEDIA", "MEDIA TIER", "MEDIA_TIER"],
+  mainSubject: ["MAIN SUBJECT", "MAIN_SUBJECT", "SUBJEK UTAMA", "FOKUS"],
+  columnCm: ["KOLOM CM", "KOLOM_CM", "COLUMN CM", "UKURAN", "SIZE"],
+} satisfies Record<string, string[]>;
+
+const SPOKESPERSON_TOKENS = [
+  "SPOKEPERSON",
+  "SPOKESPERSON",
+  "NARASUMBER",
+  "JURU BICARA",
+  "JURUBICARA",
+  "JUBIR",
+];
+
+export const sentimentColors: Record<SentimentLabel, string> = {
+  Positif: "#22c55e",
+  Netral: "#94a3b8",
+  Negatif: "#ef4444",
+};
+
+export const sentimentScore: Record<SentimentLabel, number> = {
+  Positif: 1,
+  Netral: 0,
+  Negatif: -1,
+};
+
+export const normalizeDate = (value: string) => {
+  const trimmed = value.trim();
+  if (!trimmed) return "";
+
+  if (/^\d{4}-\d{2}-\d{2}$/.test(trimmed)) return trimmed;
+
+  const match = trimmed.match(
+    /^(\d{1,2})[/-](\d{1,2})[/-](\d{2,4})(?:[\sT].*)?$/,
+  );
+  if (match) {
+    const day = match[1].padStart(2, "0");
+    const month = match[2].padStart(2, "0");
+    const year = match[3].length === 2 ? `20${match[3]}` : match[3];
+    return `${year}-${month}-${day}`;
+  }
+
+  const parsed = new Date(trimmed);
+  if (Number.isNaN(parsed.getTime())) return trimmed;
+
+  return toWibDate(parsed);
+};
+
+export const mapSentiment = (value: string): SentimentLabel => {
+  const lower = value.toLowerCase();
+  if (lower.includes("positif") || lower.includes("positive")) return "Positif";
+  if (lower.includes("negatif") || lower.includes("negative")) return "Negatif";
+  return "Netral";
+};
+
+export const normalizeName = (value: string) => {
+  const trimmed = value.trim();
+  if (!trimmed) return "";
+  const lower = trimmed.toLowerCase();
+  if (lower === "-" || lower === "—" || lower === "null" || lower === "n/a")
+    return "";
+  return trimmed;
+};
+
+const DEGREES = [
+  "S.E.",
+  "S.H.",
+  "S.Sos.",
+  "S.IP.",
+  "S.I.Kom.",
+  "S.T.",
+  "S.Kom.",
+  "S.Pd.",
+  "S.Si.",
+  "S.Ked.",
+  "S.Ag.",
+  "Ak.",
+  "M.M.",
+  "M.Si.",
+  "M.H.",
+  "M.T.",
+  "M.Kom.",
+  "M.Pd.",
+  "M.A.",
+  "M.Ag.",
+  "M.Sc.",
+  "MBA",
+  "MPP",
+  "MPA",
+  "Ph.D.",
+  "CPA",
+];
+
+const HONORIFIC_TOKENS = new Set([
+  "pak",
+  "bu",
+  "bapak",
+  "ibu",
+  "sdr",
+  "sdri",
+  "saudara",
+  "saudari",
+  "dr",
+  "drs",
+  "dra",
+  "drg",
+  "prof",
+  "ir",
+  "h",
+  "hj",
+  "kh",
+]);
+
+const TITLE_WORDS = new Set([
+  "direktur",
+  "dirut",
+  "komisaris",
+  "presiden",
+  "wakil",
+  "kepala",
+  "ketua",
+  "sekretaris",
+  "menteri",
+  "wamen",
+  "dirjen",
+  "sekjen",
+  "deputi",
+  "asisten",
+  "gubernur",
+  "bupati",
+  "walikota",
+  "camat",
+  "manajer",
+  "manager",
+  "general",
+  "senior",
+  "head",
+  "chief",
+  "corporate",
+  "ceo",
+  "cfo",
+  "coo",
+  "cto",
+  "vp",
+  "juru",
+  "jubir",
+  "humas",
+  "staf",
+  "anggota",
+  "pengamat",
+  "peneliti",
+  "ekonom",
+  "analis",
+  "dosen",
+  "plt",
+  "plh",
+]);
+
+const tokenKey = (value: string) =>
+  normalizeSearchText(value).replace(/[^\p{L}\p{N}]+/gu, "");
+
+const DEGREE_KEYS = new Set(DEGREES.map(tokenKey));
+
+const DEGREE_FORMS = new Set(
+  DEGREES.map((degree) => degree.replace(/\./g, "")),
+);
+
+const isMarkedDegree = (token: string, afterComma: boolean) =>
+  DEGREE_KEYS.has(tokenKey(token)) &&
+  (afterComma || token.includes(".") || DEGREE_FORMS.has(token));
+
+const isDegreeFragment = (value: string, afterComma: boolean) => {
+  const tokens = value.split(/\s+/).filter(Boolean);
+  return (
+    tokens.length > 0 &&
+    tokens.every((token) => isMarkedDegree(token, afterComma))
+  );
+};
+
+const isTitleFragment = (value: string) =>
+  /^\p{Ll}/u.test(value) ||
+  TITLE_WORDS.has(tokenKey(value.split(/\s+/)[0] ?? ""));
+
+const SPOKESPERSON_SEPARATOR = /(\s*[,;/&]\s*|\s+dan\s+)/i;
+
+const JOINING_SEPARATOR = /^(?:\s*[/&]\s*|\s+dan\s+)$/i;
+
+type SpokespersonPart = { name: string; titles: string[] };
+
+export const splitSpokespersons = (value: string) => {
+  const groups: string[] = [];
+  const masked = value.replace(
+    /\([^)]*\)/g,
+    (group) => `\uE000${groups.push(group) - 1}\uE000`,
+  );
+  const segments = masked.split(SPOKESPERSON_SEPARATOR);
+  const parts: SpokespersonPart[] = [];
+  let continuesTitle = false;
+  segments.forEach((segment, index) => {
+    if (index % 2 === 1) return;
+    const text = segment
+      .replace(/\uE000(\d+)\uE000/g, (_, group) => groups[Number(group)])
+      .trim();
+    const separator = segments[index - 1] ?? "";
+    const previous = parts[parts.length - 1];
+    if (!normalizeName(text)) {
+      continuesTitle = false;
+      return;
+    }
+    if (previous && isDegreeFragment(text, separator.includes(","))) {
+      continuesTitle = false;
+      return;
+    }
+    if (previous && continuesTitle && JOINING_SEPARATOR.test(separator)) {
+      const last = previous.titles.length - 1;
+      previous.titles[last] = `${previous.titles[last]}${separator}${text}`;
+      return;
+    }
+    if (previous && isTitleFragment(text)) {
+      previous.titles.push(text);
+      continuesTitle = true;
+      return;
+    }
+    parts.push({ name: text, titles: [] });
+    continuesTitle = false;
+  });
+  return Array.from(
+    new Set(
+      parts.map(({ name, titles }) =>
+        normalizeName(titles.length ? `${name} (${titles.join(", ")})` : name),
+      ),
+    ),
+  );
+};
+
+export const spokespersonNameKey = (value: string) => {
+  const tokens = value
+    .replace(/\([^)]*\)/g, " ")
+    .replace(/,/g, " , ")
+    .split(/\s+/)
+    .filter(Boolean)
+    .reduce<{ text: string; afterComma: boolean }[]>(
+      (acc, token, index, all) => {
+        if (token !== ",")
+          acc.push({ text: token, afterComma: all[index - 1] === "," });
+        return acc;
+      },
+      [],
+    )
+    .filter((token) => tokenKey(token.text));
+  while (tokens.length > 1 && HONORIFIC_TOKENS.has(tokenKey(tokens[0].text))) {
+    tokens.shift();
+  }
+  while (tokens.length > 1) {
+    const last = tokens[tokens.length - 1];
+    if (!isMarkedDegree(last.text, last.afterComma)) break;
+    tokens.pop();
+  }
+  return tokens.map((token) => tokenKey(token.text)).join(" ");
+};
+
+const isTruthyFlag = (value: string) =>
+  ["ya", "yes", "y", "true", "1", "utama", "main"].includes(
+    value.trim().toLowerCase(),
+  );
+
+const decimalSeparator = (digits: string) => {
+  const last = Math.max(digits.lastIndexOf(","), digits.lastIndexOf("."));
+  if (last < 0) return null;
+  const separator = digits[last];
+  const other = separator === "," ? "." : ",";
+  if (digits.includes(other)) return separator;
+  const isGrouping =
+    digits.indexOf(separator) !== last || digits.length - last - 1 === 3;
+  return isGrouping ? other : separator;
+};
+
+const parseAmount = (value: string) => {
+  const digits = value.replace(/[^\d,.]/g, "");
+  const decimal = decimalSeparator(digits);
+  const amount = Number(
+    decimal
+      ? digits.replace(decimal === "," ? /\./g : /,/g, "").replace(decimal, ".")
+      : digits,
+  );
+  return Number.isFinite(amount) && amount > 0 ? amount : 0;
+};
+
+export const mediaNameKey = (value: string) =>
+  value
+    .trim()
+    .toLowerCase()
+    .replace(/^https?:\/\//, "")
+    .replace(/^www\./, "")
+    .replace(/\/+$/, "")
+    .replace(/\s+/g, " ");
+
+export const canonicalizeMediaNames = (articles: CoverageArticle[]) => {
+  const variants = new Map<string, Map<string, number>>();
+  articles.forEach((article) => {
+    const key = mediaNameKey(article.media);
+    const counts = variants.get(key) ?? new Map<string, number>();
+    counts.set(article.media, (counts.get(article.media) ?? 0) + 1);
+    variants.set(key, counts);
+  });
+  const canonical = new Map(
+    Array.from(variants.entries()).map(([key, counts]) => [
+      key,
+      Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0][0],
+    ]),
+  );
+  return articles.map((article) => {
+    const media = canonical.get(mediaNameKey(article.media)) ?? article.media;
+    return media === article.media ? article : { ...article, media };
+  });
+};
+
+export const withSpokespersons = (
+  article: CoverageArticle,
+  names: string[],
+): CoverageArticle => {
+  const spokespersons = Array.from(new Set(names));
+  return spokespersons.join("|") === article.spokespersons.join("|")
+    ? article
+    : { ...article, spokespersons, spokesperson: spokespersons.join(", ") };
+};
+
+export const canonicalizeSpokespersons = (articles: CoverageArticle[]) => {
+  const variants = new Map<string, Map<string, number>>();
+  articles.forEach((article) =>
+    article.spokespersons.forEach((name) => {
+      const key = spokespersonNameKey(name);
+      const counts = variants.get(key) ?? new Map<string, number>();
+      counts.set(name, (counts.get(name) ?? 0) + 1);
+      variants.set(key, counts);
+    }),
+  );
+  const canonical = new Map(
+    Array.from(variants.entries()).map(([key, counts]) => [
+      key,
+      Array.from(counts.entries()).sort(
+        (a, b) => b[1] - a[1] || a[0].length - b[0].length,
+      )[0][0],
+    ]),
+  );
+  return articles.map((article) =>
+    withSpokespersons(
+      article,
+      article.spokespersons.map(
+        (name) => canonical.get(spokespersonNameKey(name)) ?? name,
+      ),
+    ),
+  );
+};
+
+const TIER_NUMERALS: Record<string, MediaTier> = {
+  "1": "Tier 1",
+  i: "Tier 1",
+  "2": "Tier 2",
+  ii: "Tier 2",
+  "3": "Tier 3",
+  iii: "Tier 3",
+};
+
+export const resolveMediaTier = (value: string): MediaTier | "" => {
+  const match = value
+    .trim()
+    .toLowerCase()
+    .match(/^(?:tier|t)?[\s._-]*(1|2|3|i{1,3})$/);
+  return match ? TIER_NUMERALS[match[1]] : "";
+};
+
+const resolveMediaType = (value: string): MediaType => {
+  const lower = value.trim().toLowerCase();
+  if (lower.includes("cetak") || lower.includes("print")) return "Cetak";
+  return "Online";
+};
+
+export const toCoverageArticle = (
+  row: SheetApiRow,
+  index: number,
+): CoverageArticle => {
+  const normalizedRow = normalizeSheetRow(row);
+  const getValue = (columns: string[]) =>
+    columns.map((column) => normalizedRow[column]?.trim()).find(Boolean) ?? "";
+
+  const spokespersonKey = Object.keys(normalizedRow).find((key) =>
+    SPOKESPERSON_TOKENS.some((token) => key.includes(token)),
+  );
+  const rawSpokesperson =
+    getValue(COLUMN_ALIASES.spokesperson) ||
+    (spokespersonKey ? normalizedRow[spokespersonKey].trim() : "");
+  const spokespersons = splitSpokespersons(rawSpokesperson);
+  const tone = getValue(COLUMN_ALIASES.tone);
+  const sentiment = mapSentiment(tone);
+
+  return {
+    id: getValue(COLUMN_ALIASES.id) || `row-${index + 1}`,
+    publishedDate: normalizeDate(getValue(COLUMN_ALIASES.date)),
+    media: getValue(COLUMN_ALIASES.media).replace(/\s+/g, " ") || "N/A",
+    title: getValue(COLUMN_ALIASES.title) || "Untitled",
+    summary: getValue(COLUMN_ALIASES.summary),
+    spokesperson: spokespersons.join(", "),
+    spokespersons,
+    mainframe: getValue(COLUMN_ALIASES.mainframe) || "Lainnya",
+    topic: getValue(COLUMN_ALIASES.topic) || "Lainnya",
+    sentiment,
+    toneLabel: tone || sentiment,
+    url: getValue(COLUMN_ALIASES.url),
+    company: getValue(COLUMN_ALIASES.company) || "Umum",
+    mediaType: resolveMediaType(getValue(COLUMN_ALIASES.mediaType)),
+    mediaScope: getValue(COLUMN_ALIASES.mediaScope),
+    mediaTier: resolveMediaTier(getValue(COLUMN_ALIASES.mediaTier)),
+    mediaReach: 0,
+    mainSubject: isTruthyFlag(getValue(COLUMN_ALIASES.mainSubject)),
+    columnCm: parseAmount(getValue(COLUMN_ALIASES.columnCm)),
+    ave: 0,
+    prValue: 0,
+  };
+};
@@ -0,0 +1,145 @@
+import { sentimentScore } from "./coverage";
+import type { CoverageArticle, SentimentLabel } from "../types/coverage";
+import type { DistributionPoint, TrendPoint } from "../types/dashboard";
+
+export const groupBy = <T>(rows: T[], getKey: (row: T) => string) =>
+  rows.reduce((acc, row) => {
+    const key = getKey(row);
+    if (!key) return acc;
+    const group = acc.get(key);
+    if (group) {
+      group.push(row);
+    } else {
+      acc.set(key, [row]);
+    }
+    return acc;
+  }, new Map<string, T[]>());
+
+export const filterByDateRange = <T>(
+  rows: T[],
+  getDate: (row: T) => string,
+  dateFrom: string,
+  dateTo: string,
+) =>
+  rows.filter((row) => {
+    const date = getDate(row);
+    return (!dateFrom || date >= dateFrom) && (!dateTo || date <= dateTo);
+  });
+
+export const distributionBy = <T>(
+  rows: T[],
+  getKey: (row: T) => string | string[],
+  getWeight: (row: T) => number = () => 1,
+): DistributionPoint[] => {
+  const counts = rows.reduce<Record<string, number>>((acc, row) => {
+    [getKey(row)].flat().forEach((key) => {
+      if (key) acc[key] = (acc[key] || 0) + getWeight(row);
+    });
+    return acc;
+  }, {});
+
+  return Object.entries(counts)
+    .map(([name, value]) => ({ name, value }))
+    .sort((a, b) => b.value - a.value);
+};
+
+export const latestDate = <T>(rows: T[], getDate: (row: T) => string) => {
+  const dates = rows.map(getDate).filter(Boolean).sort();
+  return dates[dates.length - 1] ?? "";
+};
+
+export const rankMovements = (
+  current: DistributionPoint[],
+  previous: DistributionPoint[] | null,
+) => {
+  if (!previous) return {};
+  const previousRanks = new Map(
+    previous.map((item, index) => [item.name, index]),
+  );
+  return current.reduce<Record<string, number | null>>((acc, item, index) => {
+    const previousRank = previousRanks.get(item.name);
+    acc[item.name] = previousRank === undefined ? null : previousRank - index;
+    return acc;
+  }, {});
+};
+
+export const countSentiments = (rows: CoverageArticle[]) =>
+  rows.reduce(
+    (acc, row) => {
+      acc[row.sentiment] += 1;
+      return acc;
+    },
+    { Positif: 0, Netral: 0, Negatif: 0 } as Record<SentimentLabel, number>,
+  );
+
+export const netSentimentScore = (rows: CoverageArticle[]) => {
+  if (rows.length === 0) return 0;
+  const counts = countSentiments(rows);
+  return Math.round(((counts.Positif - counts.Negatif) / rows.length) * 100);
+};
+
+export const sentimentTrend = (
+  rows: CoverageArticle[],
+  getPeriod: (row: CoverageArticle) => string = (row) => row.publishedDate,
+): TrendPoint[] => {
+  const grouped = new Map<
+    string,
+    { date: string; volume: number; score: number }
+  >();
+  rows.forEach((row) => {
+    const date = getPeriod(row);
+    const current = grouped.get(date) || {
+      date,
+      volume: 0,
+      score: 0,
+    };
+    current.volume += 1;
+    current.score += sentimentScore[row.sentiment];
+    grouped.set(date, current);
+  });
+  return Array.from(grouped.values())
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map(({ date, volume, score }) => ({
+      date,
+      volume,
+      sentiment: Number((score / volume).toFixed(2)),
+    }));
+};
+
+export const sentimentByPeriod = (
+  rows: CoverageArticle[],
+  getPeriod: (row: CoverageArticle) => string,
+) => {
+  const grouped = new Map<
+    string,
+    { period: string } & Record<SentimentLabel, number>
+  >();
+  rows.forEach((row) => {
+    const period = getPeriod(row);
+    if (!period) return;
+    const entry = grouped.get(period) || {
+      period,
+      Positif: 0,
+      Netral: 0,
+      Negatif: 0,
+    };
+    entry[row.sentiment] += 1;
+    grouped.set(period, entry);
+  });
+  return Array.from(grouped.values()).sort((a, b) =>
+    a.period.localeCompare(b.period),
+  );
+};
+
+export const movingAverage = <T>(
+  rows: T[],
+  getValue: (row: T) => number,
+  window: number,
+) =>
+  rows.map((_, index) => {
+    if (index < window - 1) return null;
+    const total = rows
+      .slice(index - window + 1, index + 1)
+      .reduce((sum, row) => sum + getValue(row), 0);
+    return Number((total / window).toFixed(2));
+  });
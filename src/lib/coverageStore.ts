@@ -0,0 +1,45 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  canonicalizeMediaNames,
+  canonicalizeSpokespersons,
+  toCoverageArticle,
+} from "./coverage";
+import { fetchPublishedSheetRows, SHEET_REFRESH_MS } from "./publishedSheet";
+import type { CoverageStore } from "../types/dashboard";
+
+export const useCoverageStore = (): CoverageStore => {
+  const [articles, setArticles] = useState<CoverageStore["articles"]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+
+  const refresh = useCallback(async (showLoading = true) => {
+    try {
+      if (showLoading) {
+        setLoading(true);
+      }
+      setError(null);
+      const sheetRows = await fetchPublishedSheetRows();
+      setArticles(
+        canonicalizeSpokespersons(
+          canonicalizeMediaNames(sheetRows.map(toCoverageArticle)),
+        ),
+      );
+      setLastUpdated(new Date());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Terjadi kesalahan.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh(false);
+    const intervalId = window.setInterval(() => {
+      refresh(false);
+    }, SHEET_REFRESH_MS);
+    return () => window.clearInterval(intervalId);
+  }, [refresh]);
+
+  return { articles, loading, error, lastUpdated, refresh };
+};
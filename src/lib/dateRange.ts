@@ -0,0 +1,234 @@
+import type {
+  ComparePreset,
+  DateRangePreset,
+  TrendGranularity,
+} from "../types/filters";
+
+export const TIME_ZONE = "Asia/Jakarta";
+
+const isoDateFormatter = new Intl.DateTimeFormat("en-CA", {
+  timeZone: TIME_ZONE,
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+});
+
+export const toWibDate = (date: Date) => isoDateFormatter.format(date);
+
+export const todayWib = () => toWibDate(new Date());
+
+const parseIsoDate = (value: string) => {
+  const [year, month, day] = value.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+};
+
+export const addDays = (value: string, days: number) => {
+  const date = parseIsoDate(value);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+};
+
+export const daysBetween = (from: string, to: string) =>
+  Math.round(
+    (parseIsoDate(to).getTime() - parseIsoDate(from).getTime()) / 86_400_000,
+  );
+
+const shiftYears = (value: string, years: number) => {
+  const [year, month, day] = value.split("-").map(Number);
+  const date = new Date(Date.UTC(year + years, month - 1, day));
+  if (date.getUTCMonth() !== month - 1) date.setUTCDate(0);
+  return date.toISOString().slice(0, 10);
+};
+
+export const startOfIsoWeek = (value: string) => {
+  const weekday = (parseIsoDate(value).getUTCDay() + 6) % 7;
+  return addDays(value, -weekday);
+};
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+export const DATE_RANGE_PRESETS: { value: DateRangePreset; label: string }[] = [
+  { value: "all", label: "Semua waktu" },
+  { value: "today", label: "Hari ini" },
+  { value: "yesterday", label: "Kemarin" },
+  { value: "last7", label: "7 hari terakhir" },
+  { value: "last30", label: "30 hari terakhir" },
+  { value: "last90", label: "90 hari terakhir" },
+  { value: "mtd", label: "Bulan ini" },
+  { value: "qtd", label: "Kuartal ini" },
+  { value: "ytd", label: "Tahun ini" },
+  { value: "prevMonth", label: "Bulan lalu" },
+  { value: "custom", label: "Kustom" },
+];
+
+export const isDateRangePreset = (value: string): value is DateRangePreset =>
+  DATE_RANGE_PRESETS.some((preset) => preset.value === value);
+
+export const resolveDateRange = (
+  preset: DateRangePreset,
+  dateFrom: string,
+  dateTo: string,
+  today = todayWib(),
+) => {
+  const [year, month] = today.split("-").map(Number);
+  const monthStart = `${year}-${pad(month)}-01`;
+
+  switch (preset) {
+    case "today":
+      return { dateFrom: today, dateTo: today };
+    case "yesterday": {
+      const yesterday = addDays(today, -1);
+      return { dateFrom: yesterday, dateTo: yesterday };
+    }
+    case "last7":
+      return { dateFrom: addDays(today, -6), dateTo: today };
+    case "last30":
+      return { dateFrom: addDays(today, -29), dateTo: today };
+    case "last90":
+      return { dateFrom: addDays(today, -89), dateTo: today };
+    case "mtd":
+      return { dateFrom: monthStart, dateTo: today };
+    case "qtd": {
+      const quarterMonth = Math.floor((month - 1) / 3) * 3 + 1;
+      return { dateFrom: `${year}-${pad(quarterMonth)}-01`, dateTo: today };
+    }
+    case "ytd":
+      return { dateFrom: `${year}-01-01`, dateTo: today };
+    case "prevMonth": {
+      const previousMonthEnd = addDays(monthStart, -1);
+      return {
+        dateFrom: `${previousMonthEnd.slice(0, 7)}-01`,
+        dateTo: previousMonthEnd,
+      };
+    }
+    case "custom":
+      return { dateFrom, dateTo };
+    default:
+      return { dateFrom: "", dateTo: "" };
+  }
+};
+
+export const COMPARE_PRESETS: { value: ComparePreset; label: string }[] = [
+  { value: "none", label: "Tanpa pembanding" },
+  { value: "previous", label: "Periode sebelumnya" },
+  { value: "lastYear", label: "Periode sama tahun lalu" },
+  { value: "custom", label: "Kustom" },
+];
+
+export const isComparePreset = (value: string): value is ComparePreset =>
+  COMPARE_PRESETS.some((preset) => preset.value === value);
+
+export const resolveComparisonRange = (
+  preset: ComparePreset,
+  range: { dateFrom: string; dateTo: string },
+  compareFrom: string,
+  compareTo: string,
+) => {
+  if (preset === "custom") {
+    return compareFrom && compareTo
+      ? { dateFrom: compareFrom, dateTo: compareTo }
+      : null;
+  }
+  if (preset === "none" || !range.dateFrom || !range.dateTo) return null;
+
+  if (preset === "lastYear") {
+    return {
+      dateFrom: shiftYears(range.dateFrom, -1),
+      dateTo: shiftYears(range.dateTo, -1),
+    };
+  }
+
+  const previousEnd = addDays(range.dateFrom, -1);
+  return {
+    dateFrom: addDays(previousEnd, -daysBetween(range.dateFrom, range.dateTo)),
+    dateTo: previousEnd,
+  };
+};
+
+export const TREND_GRANULARITIES: { value: TrendGranularity; label: string }[] =
+  [
+    { value: "day", label: "Harian" },
+    { value: "week", label: "Mingguan" },
+    { value: "month", label: "Bulanan" },
+    { value: "quarter", label: "Kuartalan" },
+  ];
+
+export const isTrendGranularity = (value: string): value is TrendGranularity =>
+  TREND_GRANULARITIES.some((granularity) => granularity.value === value);
+
+const isoWeek = (value: string) => {
+  const thursday = addDays(startOfIsoWeek(value), 3);
+  const yearStart = `${thursday.slice(0, 4)}-01-01`;
+  return {
+    year: thursday.slice(0, 4),
+    week: Math.floor(daysBetween(yearStart, thursday) / 7) + 1,
+  };
+};
+
+const monthLabelFormatter = new Intl.DateTimeFormat("id-ID", {
+  timeZone: "UTC",
+  month: "short",
+  year: "numeric",
+});
+
+export const periodStart = (value: string, granularity: TrendGranularity) => {
+  const [year, month] = value.split("-").map(Number);
+  switch (granularity) {
+    case "week":
+      return startOfIsoWeek(value);
+    case "month":
+      return `${year}-${pad(month)}-01`;
+    case "quarter":
+      return `${year}-${pad(Math.floor((month - 1) / 3) * 3 + 1)}-01`;
+    default:
+      return value;
+  }
+};
+
+export const periodRange = (start: string, granularity: TrendGranularity) => {
+  const [year, month] = start.split("-").map(Number);
+  switch (granularity) {
+    case "week":
+      return { dateFrom: start, dateTo: addDays(start, 6) };
+    case "month":
+      return {
+        dateFrom: start,
+        dateTo: addDays(
+          month === 12 ? `${year + 1}-01-01` : `${year}-${pad(month + 1)}-01`,
+          -1,
+        ),
+      };
+    case "quarter":
+      return {
+        dateFrom: start,
+        dateTo: addDays(
+          month >= 10 ? `${year + 1}-01-01` : `${year}-${pad(month + 3)}-01`,
+          -1,
+        ),
+      };
+    default:
+      return { dateFrom: start, dateTo: start };
+  }
+};
+
+export const formatPeriod = (start: string, granularity: TrendGranularity) => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(start)) return start;
+  const [year, month] = start.split("-").map(Number);
+  switch (granularity) {
+    case "week": {
+      const { year: weekYear, week } = isoWeek(start);
+      return `Mg ${week} ${weekYear}`;
+    }
+    case "month":
+      return monthLabelFormatter.format(parseIsoDate(start));
+    case "quarter":
+      return `K${Math.floor((month - 1) / 3) + 1} ${year}`;
+    default:
+      return parseIsoDate(start).toLocaleDateString("id-ID", {
+        timeZone: "UTC",
+        day: "2-digit",
+        month: "short",
+        year: "numeric",
+      });
+  }
+};
@@ -0,0 +1,64 @@
+import type { CoverageArticle } from "../types/coverage";
+
+export const downloadFile = (
+  content: string,
+  filename: string,
+  type: string,
+) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  window.setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+const escapeCsvValue = (value: string | number) => {
+  const text =
+    typeof value === "string" && /^[=+\-@\t\r]/.test(value)
+      ? `'${value}`
+      : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: (string | number)[][]) =>
+  rows.map((row) => row.map(escapeCsvValue).join(",")).join("\r\n");
+
+export const downloadCsv = (rows: (string | number)[][], filename: string) =>
+  downloadFile(`\uFEFF${toCsv(rows)}`, filename, "text/csv;charset=utf-8");
+
+export const articlesToCsvRows = (articles: CoverageArticle[]) => [
+  [
+    "Tanggal",
+    "Media",
+    "Headline",
+    "Tone",
+    "Topik",
+    "Mainframe",
+    "Spokesperson",
+    "Perusahaan",
+    "AVE (IDR)",
+    "PR Value (IDR)",
+    "Link",
+  ],
+  ...articles.map((article) => [
+    article.publishedDate,
+    article.media,
+    article.title,
+    article.toneLabel,
+    article.topic,
+    article.mainframe,
+    article.spokesperson,
+    article.company,
+    Math.round(article.ave),
+    Math.round(article.prValue),
+    article.url,
+  ]),
+];
+
+export const toFileSlug = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "") || "export";
@@ -0,0 +1,278 @@
+import { filterByDateRange } from "./coverageSelectors";
+import {
+  isComparePreset,
+  isDateRangePreset,
+  isTrendGranularity,
+  resolveComparisonRange,
+  resolveDateRange,
+} from "./dateRange";
+import { inspectQuery, matchesQuery } from "./query";
+import { SENTIMENT_LABELS, type CoverageArticle } from "../types/coverage";
+import type {
+  CoverageFilters,
+  FacetCounts,
+  FacetKey,
+  FilterOptions,
+} from "../types/filters";
+
+const LEGACY_ALL = "All";
+
+export const FACET_KEYS: FacetKey[] = [
+  "company",
+  "sentiment",
+  "media",
+  "topic",
+  "mainframe",
+  "spokesperson",
+  "mediaType",
+  "scope",
+  "tier",
+];
+
+export const FACET_LABELS: Record<FacetKey, string> = {
+  company: "Perusahaan",
+  sentiment: "Sentimen",
+  media: "Media",
+  topic: "Topik",
+  mainframe: "Mainframe",
+  spokesperson: "Spokesperson",
+  mediaType: "Jenis media",
+  scope: "Scope media",
+  tier: "Tier media",
+};
+
+const FACET_VALUES: Record<FacetKey, (article: CoverageArticle) => string[]> = {
+  company: (article) => [article.company],
+  sentiment: (article) => [article.sentiment],
+  media: (article) => [article.media],
+  topic: (article) => [article.topic],
+  mainframe: (article) => [article.mainframe],
+  spokesperson: (article) => article.spokespersons,
+  mediaType: (article) => [article.mediaType],
+  scope: (article) => [article.mediaScope],
+  tier: (article) => [article.mediaTier],
+};
+
+export const createDefaultFilters = (): CoverageFilters => ({
+  range: "all",
+  dateFrom: "",
+  dateTo: "",
+  compare: "none",
+  compareFrom: "",
+  compareTo: "",
+  granularity: "day",
+  company: [],
+  sentiment: [],
+  media: [],
+  topic: [],
+  mainframe: [],
+  spokesperson: [],
+  mediaType: [],
+  scope: [],
+  tier: [],
+  query: "",
+});
+
+const FILTER_PARAMS: Record<keyof CoverageFilters, string> = {
+  range: "range",
+  dateFrom: "from",
+  dateTo: "to",
+  compare: "compare",
+  compareFrom: "compareFrom",
+  compareTo: "compareTo",
+  granularity: "granularity",
+  company: "company",
+  sentiment: "sentiment",
+  media: "media",
+  topic: "topic",
+  mainframe: "mainframe",
+  spokesperson: "spokesperson",
+  mediaType: "type",
+  scope: "scope",
+  tier: "tier",
+  query: "q",
+};
+
+const TEXT_KEYS = [
+  "dateFrom",
+  "dateTo",
+  "compareFrom",
+  "compareTo",
+  "query",
+] as const;
+
+export const parseFilters = (params: URLSearchParams): CoverageFilters => {
+  const filters = createDefaultFilters();
+  TEXT_KEYS.forEach((key) => {
+    const value = params.get(FILTER_PARAMS[key]);
+    if (value) filters[key] = value;
+  });
+  FACET_KEYS.forEach((key) => {
+    filters[key] = Array.from(
+      new Set(
+        params
+          .getAll(FILTER_PARAMS[key])
+          .filter((value) => value && value !== LEGACY_ALL),
+      ),
+    );
+  });
+
+  const range = params.get(FILTER_PARAMS.range) ?? "";
+  if (isDateRangePreset(range)) {
+    filters.range = range;
+  } else if (filters.dateFrom || filters.dateTo) {
+    filters.range = "custom";
+  }
+
+  const compare = params.get(FILTER_PARAMS.compare) ?? "";
+  if (isComparePreset(compare)) filters.compare = compare;
+
+  const granularity = params.get(FILTER_PARAMS.granularity) ?? "";
+  if (isTrendGranularity(granularity)) filters.granularity = granularity;
+  return filters;
+};
+
+export const toFilterParams = (filters: CoverageFilters) => {
+  const params = new URLSearchParams();
+  if (filters.range !== "all") params.set(FILTER_PARAMS.range, filters.range);
+  if (filters.range === "custom") {
+    if (filters.dateFrom) params.set(FILTER_PARAMS.dateFrom, filters.dateFrom);
+    if (filters.dateTo) params.set(FILTER_PARAMS.dateTo, filters.dateTo);
+  }
+  if (filters.compare !== "none") {
+    params.set(FILTER_PARAMS.compare, filters.compare);
+  }
+  if (filters.compare === "custom") {
+    if (filters.compareFrom) {
+      params.set(FILTER_PARAMS.compareFrom, filters.compareFrom);
+    }
+    if (filters.compareTo) {
+      params.set(FILTER_PARAMS.compareTo, filters.compareTo);
+    }
+  }
+  if (filters.granularity !== "day") {
+    params.set(FILTER_PARAMS.granularity, filters.granularity);
+  }
+  FACET_KEYS.forEach((key) => {
+    filters[key].forEach((value) => params.append(FILTER_PARAMS[key], value));
+  });
+  if (filters.query) params.set(FILTER_PARAMS.query, filters.query);
+  return params;
+};
+
+export const toggleFacetValue = (
+  filters: CoverageFilters,
+  key: FacetKey,
+  value: string,
+): Partial<CoverageFilters> => ({
+  [key]: filters[key].includes(value)
+    ? filters[key].filter((item) => item !== value)
+    : [...filters[key], value],
+});
+
+export const selectSingleDay = (date: string): Partial<CoverageFilters> => ({
+  range: "custom",
+  dateFrom: date,
+  dateTo: date,
+});
+
+const normalizeScope = (value: string) => value.trim().toLowerCase();
+
+const matchesFacet = (
+  key: FacetKey,
+  selected: string[],
+  article: CoverageArticle,
+) => {
+  if (selected.length === 0) return true;
+  const values = FACET_VALUES[key](article);
+  return key === "scope"
+    ? selected.some((item) =>
+        values.some((value) => normalizeScope(item) === normalizeScope(value)),
+      )
+    : values.some((value) => selected.includes(value));
+};
+
+export const resolveFilterDates = (filters: CoverageFilters) =>
+  resolveDateRange(filters.range, filters.dateFrom, filters.dateTo);
+
+export const resolveComparisonDates = (filters: CoverageFilters) =>
+  resolveComparisonRange(
+    filters.compare,
+    resolveFilterDates(filters),
+    filters.compareFrom,
+    filters.compareTo,
+  );
+
+const filterArticles = (
+  articles: CoverageArticle[],
+  filters: CoverageFilters,
+  { dateFrom, dateTo }: { dateFrom: string; dateTo: string },
+  ignoredFacet?: FacetKey,
+) => {
+  const { node } = inspectQuery(filters.query);
+  return filterByDateRange(
+    articles,
+    (article) => article.publishedDate,
+    dateFrom,
+    dateTo,
+  ).filter(
+    (article) =>
+      FACET_KEYS.every(
+        (key) =>
+          key === ignoredFacet || matchesFacet(key, filters[key], article),
+      ) &&
+      (!node || matchesQuery(node, article)),
+  );
+};
+
+export const applyFilters = (
+  articles: CoverageArticle[],
+  filters: CoverageFilters,
+) => filterArticles(articles, filters, resolveFilterDates(filters));
+
+export const applyComparisonFilters = (
+  articles: CoverageArticle[],
+  filters: CoverageFilters,
+) => {
+  const range = resolveComparisonDates(filters);
+  return range ? filterArticles(articles, filters, range) : null;
+};
+
+export const buildFacetCounts = (
+  articles: CoverageArticle[],
+  filters: CoverageFilters,
+) => {
+  const range = resolveFilterDates(filters);
+  return Object.fromEntries(
+    FACET_KEYS.map((key) => {
+      const counts: Record<string, number> = {};
+      filterArticles(articles, filters, range, key).forEach((article) => {
+        FACET_VALUES[key](article).forEach((value) => {
+          if (value) counts[value] = (counts[value] ?? 0) + 1;
+        });
+      });
+      return [key, counts];
+    }),
+  ) as FacetCounts;
+};
+
+const uniqueSorted = (values: string[]) =>
+  Array.from(new Set(values.filter(Boolean))).sort((a, b) =>
+    a.localeCompare(b, "id-ID", { sensitivity: "base" }),
+  );
+
+export const buildFilterOptions = (
+  articles: CoverageArticle[],
+): FilterOptions => {
+  const options = Object.fromEntries(
+    FACET_KEYS.map((key) => [
+      key,
+      uniqueSorted(articles.flatMap(FACET_VALUES[key])),
+    ]),
+  ) as FilterOptions;
+  return {
+    ...options,
+    sentiment: [...SENTIMENT_LABELS],
+    mediaType: ["Online", "Cetak"],
+  };
+};
@@ -0,0 +1,185 @@
+import { useEffect, useState } from "react";
+import { mediaNameKey, sentimentScore } from "./coverage";
+import { normalizeSearchText } from "./search";
+import type { CoverageArticle } from "../types/coverage";
+import {
+  MEDIA_SCOPES,
+  MEDIA_TIERS,
+  type MediaRegistryEntry,
+  type MediaRegistryStore,
+} from "../types/mediaRegistry";
+
+export const MEDIA_REGISTRY_STORAGE_KEY = "medmon-media-registry";
+
+const createId = () =>
+  `media-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const MEDIA_DUPLICATES_STORAGE_KEY = "medmon-media-dismissed-duplicates";
+
+export const normalizeMediaKey = (value: string) =>
+  normalizeSearchText(mediaNameKey(value)).replace(/[^\p{L}\p{N}]+/gu, "");
+
+export const mediaSimilarityKey = (value: string) =>
+  normalizeMediaKey(
+    mediaNameKey(value)
+      .replace(/\.(co\.id|com|co|id|net|org)$/, "")
+      .replace(/\b(online|digital|daily|news)\b/g, ""),
+  );
+
+export const createMediaEntry = (
+  name: string,
+  patch: Partial<MediaRegistryEntry> = {},
+): MediaRegistryEntry => ({
+  id: createId(),
+  name,
+  aliases: [],
+  tier: "",
+  reach: 0,
+  mediaType: "",
+  scope: "",
+  province: "",
+  ...patch,
+});
+
+const toRegistryEntry = (value: unknown): MediaRegistryEntry | null => {
+  if (!value || typeof value !== "object") return null;
+  const entry = value as Record<string, unknown>;
+  if (typeof entry.name !== "string" || !entry.name.trim()) return null;
+  return createMediaEntry(entry.name.trim(), {
+    id: typeof entry.id === "string" && entry.id ? entry.id : createId(),
+    aliases: Array.isArray(entry.aliases)
+      ? entry.aliases.filter(
+          (alias): alias is string => typeof alias === "string" && !!alias,
+        )
+      : [],
+    tier: MEDIA_TIERS.find((tier) => tier === entry.tier) ?? "",
+    reach: typeof entry.reach === "number" && entry.reach > 0 ? entry.reach : 0,
+    mediaType:
+      entry.mediaType === "Cetak" || entry.mediaType === "Online"
+        ? entry.mediaType
+        : "",
+    scope: MEDIA_SCOPES.find((scope) => scope === entry.scope) ?? "",
+    province: typeof entry.province === "string" ? entry.province : "",
+  });
+};
+
+const toRegistryEntries = (values: unknown[]) =>
+  values
+    .map(toRegistryEntry)
+    .filter((entry): entry is MediaRegistryEntry => entry !== null);
+
+export const loadMediaRegistry = (): MediaRegistryEntry[] => {
+  try {
+    const stored = window.localStorage.getItem(MEDIA_REGISTRY_STORAGE_KEY);
+    if (!stored) return [];
+    const parsed = JSON.parse(stored) as { entries?: unknown };
+    return Array.isArray(parsed.entries)
+      ? toRegistryEntries(parsed.entries)
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+const persistMediaRegistry = (entries: MediaRegistryEntry[]) => {
+  window.localStorage.setItem(
+    MEDIA_REGISTRY_STORAGE_KEY,
+    JSON.stringify({ entries }),
+  );
+};
+
+export const parseMediaRegistryImport = (text: string) => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("File bukan JSON yang valid.");
+  }
+
+  const candidates = Array.isArray(parsed)
+    ? parsed
+    : (parsed as { entries?: unknown } | null)?.entries;
+  if (!Array.isArray(candidates)) {
+    throw new Error("Format registri media tidak dikenali.");
+  }
+  return toRegistryEntries(candidates);
+};
+
+export const buildMediaLookup = (entries: MediaRegistryEntry[]) => {
+  const lookup = new Map<string, MediaRegistryEntry>();
+  entries.forEach((entry) => {
+    [entry.name, ...entry.aliases].forEach((name) => {
+      const key = normalizeMediaKey(name);
+      if (key && !lookup.has(key)) lookup.set(key, entry);
+    });
+  });
+  return lookup;
+};
+
+export const applyMediaRegistry = (
+  articles: CoverageArticle[],
+  entries: MediaRegistryEntry[],
+) => {
+  if (entries.length === 0) return articles;
+  const lookup = buildMediaLookup(entries);
+  return articles.map((article) => {
+    const entry = lookup.get(normalizeMediaKey(article.media));
+    if (!entry) return article;
+    return {
+      ...article,
+      media: entry.name,
+      mediaTier: entry.tier || article.mediaTier,
+      mediaReach: entry.reach,
+      mediaType: entry.mediaType || article.mediaType,
+      mediaScope: entry.scope || article.mediaScope,
+    };
+  });
+};
+
+export const totalReach = (rows: CoverageArticle[]) =>
+  rows.reduce((sum, row) => sum + row.mediaReach, 0);
+
+export const reachWeightedSentiment = (rows: CoverageArticle[]) => {
+  const reach = totalReach(rows);
+  if (!reach) return null;
+  const score = rows.reduce(
+    (sum, row) => sum + row.mediaReach * sentimentScore[row.sentiment],
+    0,
+  );
+  return Math.round((score / reach) * 100);
+};
+
+export const useMediaRegistry = (): MediaRegistryStore => {
+  const [entries, setEntries] = useState(loadMediaRegistry);
+
+  useEffect(() => persistMediaRegistry(entries), [entries]);
+
+  const update = (
+    updater: (current: MediaRegistryEntry[]) => MediaRegistryEntry[],
+  ) => setEntries(updater);
+
+  const saveEntry = (entry: MediaRegistryEntry) =>
+    update((current) =>
+      current.some((item) => item.id === entry.id)
+        ? current.map((item) => (item.id === entry.id ? entry : item))
+        : [...current, entry],
+    );
+
+  const deleteEntry = (id: string) =>
+    update((current) => current.filter((item) => item.id !== id));
+
+  const importEntries = (imported: MediaRegistryEntry[]) =>
+    update((current) => {
+      const byName = new Map(
+        current.map((item) => [normalizeMediaKey(item.name), item]),
+      );
+      imported.forEach((entry) => {
+        const key = normalizeMediaKey(entry.name);
+        const existing = byName.get(key);
+        byName.set(key, existing ? { ...entry, id: existing.id } : entry);
+      });
+      return Array.from(byName.values());
+    });
+
+  return { entries, saveEntry, deleteEntry, importEntries };
+};
@@ -0,0 +1,164 @@
+import { useState } from "react";
+import type { CoverageArticle } from "../types/coverage";
+import type { RateCard, RateCardStore, ValueBreakdown } from "../types/prValue";
+
+export const RATE_CARD_STORAGE_KEY = "medmon-rate-card";
+
+export const DEFAULT_RATE_KEY = "Default";
+
+export const DEFAULT_RATE_CARD: RateCard = {
+  online: {
+    [DEFAULT_RATE_KEY]: 5_000_000,
+    "Tier 1": 15_000_000,
+    "Tier 2": 7_500_000,
+    "Tier 3": 2_500_000,
+  },
+  print: {
+    [DEFAULT_RATE_KEY]: 60_000,
+    "Tier 1": 150_000,
+    "Tier 2": 75_000,
+    "Tier 3": 35_000,
+  },
+  media: {},
+  defaultColumnCm: 100,
+  toneMultipliers: { Positif: 3, Netral: 1, Negatif: -1 },
+};
+
+export const AVE_FORMULA =
+  "AVE online = tarif per artikel; AVE cetak = tarif per kolom-cm × ukuran (kolom-cm). Tarif media menggantikan tarif tier, tarif tier menggantikan tarif default.";
+
+export const PR_VALUE_FORMULA = "PR value = AVE × pengali tone";
+
+const rupiahFormatter = new Intl.NumberFormat("id-ID", {
+  style: "currency",
+  currency: "IDR",
+  maximumFractionDigits: 0,
+});
+
+const compactRupiahFormatter = new Intl.NumberFormat("id-ID", {
+  style: "currency",
+  currency: "IDR",
+  notation: "compact",
+  maximumFractionDigits: 1,
+});
+
+export const formatRupiah = (value: number) => rupiahFormatter.format(value);
+
+export const formatCompactRupiah = (value: number) =>
+  compactRupiahFormatter.format(value);
+
+const isAmount = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value) && value >= 0;
+
+const pickAmounts = (value: unknown, fallback: Record<string, number>) =>
+  value && typeof value === "object"
+    ? {
+        ...fallback,
+        ...Object.fromEntries(
+          Object.entries(value).filter(([, amount]) => isAmount(amount)),
+        ),
+      }
+    : fallback;
+
+export const loadRateCard = (): RateCard => {
+  try {
+    const stored = window.localStorage.getItem(RATE_CARD_STORAGE_KEY);
+    if (!stored) return DEFAULT_RATE_CARD;
+    const parsed = JSON.parse(stored) as Partial<RateCard>;
+    const multipliers = parsed.toneMultipliers;
+    return {
+      online: pickAmounts(parsed.online, DEFAULT_RATE_CARD.online),
+      print: pickAmounts(parsed.print, DEFAULT_RATE_CARD.print),
+      media: pickAmounts(parsed.media, {}),
+      defaultColumnCm: isAmount(parsed.defaultColumnCm)
+        ? parsed.defaultColumnCm
+        : DEFAULT_RATE_CARD.defaultColumnCm,
+      toneMultipliers:
+        multipliers &&
+        [multipliers.Positif, multipliers.Netral, multipliers.Negatif].every(
+          (value) => typeof value === "number" && Number.isFinite(value),
+        )
+          ? multipliers
+          : DEFAULT_RATE_CARD.toneMultipliers,
+    };
+  } catch {
+    return DEFAULT_RATE_CARD;
+  }
+};
+
+export const articleRate = (article: CoverageArticle, rateCard: RateCard) => {
+  const rates =
+    article.mediaType === "Cetak" ? rateCard.print : rateCard.online;
+  return (
+    rateCard.media[article.media] ??
+    rates[article.mediaTier] ??
+    rates[DEFAULT_RATE_KEY] ??
+    0
+  );
+};
+
+export const applyRateCard = (
+  articles: CoverageArticle[],
+  rateCard: RateCard,
+) =>
+  articles.map((article) => {
+    const rate = articleRate(article, rateCard);
+    const ave =
+      article.mediaType === "Cetak"
+        ? rate * (article.columnCm || rateCard.defaultColumnCm)
+        : rate;
+    return {
+      ...article,
+      ave,
+      prValue: ave * rateCard.toneMultipliers[article.sentiment],
+    };
+  });
+
+export const valueTotals = (rows: CoverageArticle[]) =>
+  rows.reduce(
+    (acc, row) => {
+      acc.ave += row.ave;
+      acc.prValue += row.prValue;
+      return acc;
+    },
+    { ave: 0, prValue: 0 },
+  );
+
+export const valueBy = (
+  rows: CoverageArticle[],
+  getKey: (row: CoverageArticle) => string | string[],
+): ValueBreakdown[] => {
+  const grouped = new Map<string, ValueBreakdown>();
+  rows.forEach((row) => {
+    [getKey(row)].flat().forEach((name) => {
+      if (!name) return;
+      const entry = grouped.get(name) ?? {
+        name,
+        count: 0,
+        ave: 0,
+        prValue: 0,
+      };
+      entry.count += 1;
+      entry.ave += row.ave;
+      entry.prValue += row.prValue;
+      grouped.set(name, entry);
+    });
+  });
+  return Array.from(grouped.values()).sort((a, b) => b.ave - a.ave);
+};
+
+export const useRateCard = (): RateCardStore => {
+  const [rateCard, setRateCard] = useState(loadRateCard);
+
+  const updateRateCard = (next: RateCard) => {
+    window.localStorage.setItem(RATE_CARD_STORAGE_KEY, JSON.stringify(next));
+    setRateCard(next);
+  };
+
+  const resetRateCard = () => {
+    window.localStorage.removeItem(RATE_CARD_STORAGE_KEY);
+    setRateCard(DEFAULT_RATE_CARD);
+  };
+
+  return { rateCard, updateRateCard, resetRateCard };
+};
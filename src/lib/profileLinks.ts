@@ -0,0 +1,8 @@
+export const mediaProfilePath = (name: string) =>
+  `/media/${encodeURIComponent(name)}`;
+
+export const spokespersonProfilePath = (name: string) =>
+  `/spokesperson/${encodeURIComponent(name)}`;
+
+export const topicDetailPath = (topic: string) =>
+  `/topik/${encodeURIComponent(topic)}`;
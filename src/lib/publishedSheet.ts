@@ -92,3 +92,14 @@ export const fetchPublishedSheetRows = async (
       return record;
     });
 };
+
+export type SheetRecord = Record<string, string>;
+
+export const normalizeSheetRow = (row: SheetApiRow): SheetRecord => {
+  const normalizedRow: SheetRecord = {};
+  Object.entries(row).forEach(([key, value]) => {
+    if (!key) return;
+    normalizedRow[key.trim().toUpperCase()] = String(value ?? "");
+  });
+  return normalizedRow;
+};
@@ -0,0 +1,444 @@
+import { addDays } from "./dateRange";
+import { normalizeSearchText } from "./search";
+import type { CoverageArticle } from "../types/coverage";
+
+export type QueryField =
+  | "media"
+  | "tone"
+  | "topic"
+  | "spokesperson"
+  | "mainframe"
+  | "company"
+  | "mediaType"
+  | "scope"
+  | "tier"
+  | "title"
+  | "summary"
+  | "url";
+
+export type QueryNode =
+  | { type: "and"; children: QueryNode[] }
+  | { type: "or"; children: QueryNode[] }
+  | { type: "not"; child: QueryNode }
+  | { type: "text"; value: string }
+  | { type: "field"; field: QueryField; value: string }
+  | { type: "date"; from: string; to: string; prefix: string };
+
+export class QuerySyntaxError extends Error {
+  position: number;
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.name = "QuerySyntaxError";
+    this.position = position;
+  }
+}
+
+const FIELD_ALIASES: Record<string, QueryField | "date" | "after" | "before"> =
+  {
+    media: "media",
+    tone: "tone",
+    sentimen: "tone",
+    sentiment: "tone",
+    topik: "topic",
+    topic: "topic",
+    spokesperson: "spokesperson",
+    narasumber: "spokesperson",
+    jubir: "spokesperson",
+    mainframe: "mainframe",
+    company: "company",
+    perusahaan: "company",
+    jenis: "mediaType",
+    type: "mediaType",
+    scope: "scope",
+    tier: "tier",
+    headline: "title",
+    judul: "title",
+    summary: "summary",
+    ringkasan: "summary",
+    link: "url",
+    url: "url",
+    date: "date",
+    tanggal: "date",
+    after: "after",
+    before: "before",
+  };
+
+export const QUERY_FIELDS = Object.keys(FIELD_ALIASES);
+
+const FIELD_VALUES: Record<QueryField, (article: CoverageArticle) => string[]> =
+  {
+    media: (article) => [article.media],
+    tone: (article) => [article.sentiment, article.toneLabel],
+    topic: (article) => [article.topic],
+    spokesperson: (article) => article.spokespersons,
+    mainframe: (article) => [article.mainframe],
+    company: (article) => [article.company],
+    mediaType: (article) => [article.mediaType],
+    scope: (article) => [article.mediaScope],
+    tier: (article) => [article.mediaTier],
+    title: (article) => [article.title],
+    summary: (article) => [article.summary],
+    url: (article) => [article.url],
+  };
+
+const TEXT_FIELDS: QueryField[] = [
+  "title",
+  "summary",
+  "media",
+  "spokesperson",
+  "topic",
+];
+
+type Token =
+  | { type: "lparen" | "rparen" | "and" | "or" | "not"; start: number }
+  | {
+      type: "term";
+      start: number;
+      end: number;
+      field: string | null;
+      value: string;
+      quoted: boolean;
+    };
+
+const isBoundary = (char: string | undefined) =>
+  char === undefined || /\s/.test(char) || char === "(" || char === ")";
+
+const readQuoted = (input: string, start: number) => {
+  const end = input.indexOf('"', start + 1);
+  if (end === -1) {
+    throw new QuerySyntaxError("Tanda kutip belum ditutup.", start);
+  }
+  return { value: input.slice(start + 1, end), next: end + 1 };
+};
+
+const tokenize = (input: string): Token[] => {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < input.length) {
+    const char = input[index];
+    if (/\s/.test(char)) {
+      index += 1;
+      continue;
+    }
+    if (char === "(" || char === ")") {
+      tokens.push({ type: char === "(" ? "lparen" : "rparen", start: index });
+      index += 1;
+      continue;
+    }
+    if (char === "-" && !isBoundary(input[index + 1])) {
+      tokens.push({ type: "not", start: index });
+      index += 1;
+      continue;
+    }
+
+    const start = index;
+    if (char === '"') {
+      const { value, next } = readQuoted(input, index);
+      tokens.push({
+        type: "term",
+        start,
+        end: next,
+        field: null,
+        value,
+        quoted: true,
+      });
+      index = next;
+      continue;
+    }
+
+    while (!isBoundary(input[index]) && input[index] !== ":") index += 1;
+    const word = input.slice(start, index);
+
+    if (input[index] === ":") {
+      index += 1;
+      let value = "";
+      let quoted = false;
+      if (input[index] === '"') {
+        const result = readQuoted(input, index);
+        value = result.value;
+        quoted = true;
+        index = result.next;
+      } else {
+        const valueStart = index;
+        while (!isBoundary(input[index])) index += 1;
+        value = input.slice(valueStart, index);
+      }
+      tokens.push({
+        type: "term",
+        start,
+        end: index,
+        field: word,
+        value,
+        quoted,
+      });
+      continue;
+    }
+
+    if (word === "AND" || word === "&&") {
+      tokens.push({ type: "and", start });
+    } else if (word === "OR" || word === "||") {
+      tokens.push({ type: "or", start });
+    } else if (word === "NOT") {
+      tokens.push({ type: "not", start });
+    } else {
+      tokens.push({
+        type: "term",
+        start,
+        end: index,
+        field: null,
+        value: word,
+        quoted: false,
+      });
+    }
+  }
+
+  return tokens;
+};
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const DATE_PREFIX = /^\d{4}(-\d{2}(-\d{2})?)?$/;
+
+const parseDateValue = (
+  alias: "date" | "after" | "before",
+  raw: string,
+  position: number,
+): QueryNode => {
+  const requireDate = (value: string) => {
+    if (value && !ISO_DATE.test(value)) {
+      throw new QuerySyntaxError(
+        `Tanggal tidak valid: "${value}". Gunakan format YYYY-MM-DD.`,
+        position,
+      );
+    }
+    return value;
+  };
+
+  if (alias === "after") {
+    return { type: "date", from: requireDate(raw), to: "", prefix: "" };
+  }
+  if (alias === "before") {
+    return { type: "date", from: "", to: requireDate(raw), prefix: "" };
+  }
+
+  if (raw.includes("..")) {
+    const [from, to] = raw.split("..");
+    return {
+      type: "date",
+      from: requireDate(from),
+      to: requireDate(to),
+      prefix: "",
+    };
+  }
+
+  const comparison = raw.match(/^(>=|<=|>|<)(.*)$/);
+  if (comparison) {
+    const [, operator, value] = comparison;
+    const date = requireDate(value);
+    if (!date) {
+      throw new QuerySyntaxError(
+        `Tanggal kosong setelah "${operator}".`,
+        position,
+      );
+    }
+    if (operator === ">") {
+      return { type: "date", from: addDays(date, 1), to: "", prefix: "" };
+    }
+    if (operator === ">=") {
+      return { type: "date", from: date, to: "", prefix: "" };
+    }
+    if (operator === "<") {
+      return { type: "date", from: "", to: addDays(date, -1), prefix: "" };
+    }
+    return { type: "date", from: "", to: date, prefix: "" };
+  }
+
+  if (!DATE_PREFIX.test(raw)) {
+    throw new QuerySyntaxError(
+      `Tanggal tidak valid: "${raw}". Gunakan YYYY, YYYY-MM atau YYYY-MM-DD.`,
+      position,
+    );
+  }
+  return { type: "date", from: "", to: "", prefix: raw };
+};
+
+const termNode = (token: Extract<Token, { type: "term" }>): QueryNode => {
+  if (token.field === null) {
+    return { type: "text", value: normalizeSearchText(token.value) };
+  }
+
+  const alias = FIELD_ALIASES[token.field.toLowerCase()];
+  if (!alias) {
+    throw new QuerySyntaxError(
+      `Field tidak dikenal: "${token.field}".`,
+      token.start,
+    );
+  }
+  if (!token.value.trim()) {
+    throw new QuerySyntaxError(
+      `Nilai untuk "${token.field}:" masih kosong.`,
+      token.start,
+    );
+  }
+  if (alias === "date" || alias === "after" || alias === "before") {
+    return parseDateValue(alias, token.value.trim(), token.start);
+  }
+  return {
+    type: "field",
+    field: alias,
+    value: token.value.trim() === "-" ? "-" : normalizeSearchText(token.value),
+  };
+};
+
+export const parseQuery = (input: string): QueryNode | null => {
+  const tokens = tokenize(input);
+  if (tokens.length === 0) return null;
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const endPosition = () => input.length;
+
+  const parseOr = (): QueryNode => {
+    const children = [parseAnd()];
+    while (peek()?.type === "or") {
+      const operator = tokens[position];
+      position += 1;
+      if (!peek() || peek().type === "rparen" || peek().type === "or") {
+        throw new QuerySyntaxError(
+          "OR membutuhkan ekspresi setelahnya.",
+          operator.start,
+        );
+      }
+      children.push(parseAnd());
+    }
+    return children.length === 1 ? children[0] : { type: "or", children };
+  };
+
+  const parseAnd = (): QueryNode => {
+    const children = [parseUnary()];
+    while (peek() && peek().type !== "or" && peek().type !== "rparen") {
+      if (peek().type === "and") {
+        const operator = tokens[position];
+        position += 1;
+        if (!peek() || peek().type === "rparen" || peek().type === "or") {
+          throw new QuerySyntaxError(
+            "AND membutuhkan ekspresi setelahnya.",
+            operator.start,
+          );
+        }
+      }
+      children.push(parseUnary());
+    }
+    return children.length === 1 ? children[0] : { type: "and", children };
+  };
+
+  const parseUnary = (): QueryNode => {
+    const token = peek();
+    if (!token) {
+      throw new QuerySyntaxError("Ekspresi belum lengkap.", endPosition());
+    }
+    if (token.type === "not") {
+      position += 1;
+      if (!peek()) {
+        throw new QuerySyntaxError(
+          "NOT membutuhkan ekspresi setelahnya.",
+          token.start,
+        );
+      }
+      return { type: "not", child: parseUnary() };
+    }
+    if (token.type === "lparen") {
+      position += 1;
+      if (peek()?.type === "rparen") {
+        throw new QuerySyntaxError("Kurung kosong.", token.start);
+      }
+      const node = parseOr();
+      if (peek()?.type !== "rparen") {
+        throw new QuerySyntaxError("Kurung buka belum ditutup.", token.start);
+      }
+      position += 1;
+      return node;
+    }
+    if (token.type === "term") {
+      position += 1;
+      return termNode(token);
+    }
+    if (token.type === "rparen") {
+      throw new QuerySyntaxError("Kurung tutup tanpa pasangan.", token.start);
+    }
+    throw new QuerySyntaxError(
+      `${token.type.toUpperCase()} tidak bisa diletakkan di sini.`,
+      token.start,
+    );
+  };
+
+  const node = parseOr();
+  const rest = peek();
+  if (rest) {
+    throw new QuerySyntaxError("Kurung tutup tanpa pasangan.", rest.start);
+  }
+  return node;
+};
+
+export const matchesQuery = (
+  node: QueryNode,
+  article: CoverageArticle,
+): boolean => {
+  switch (node.type) {
+    case "and":
+      return node.children.every((child) => matchesQuery(child, article));
+    case "or":
+      return node.children.some((child) => matchesQuery(child, article));
+    case "not":
+      return !matchesQuery(node.child, article);
+    case "text":
+      return TEXT_FIELDS.some((field) =>
+        FIELD_VALUES[field](article).some((value) =>
+          normalizeSearchText(value).includes(node.value),
+        ),
+      );
+    case "field": {
+      const values = FIELD_VALUES[node.field](article);
+      if (node.value === "-") {
+        return values.every((value) => !value.trim());
+      }
+      return values.some((value) =>
+        normalizeSearchText(value).includes(node.value),
+      );
+    }
+    case "date": {
+      const date = article.publishedDate;
+      if (!date) return false;
+      if (node.prefix) return date.startsWith(node.prefix);
+      return (!node.from || date >= node.from) && (!node.to || date <= node.to);
+    }
+  }
+};
+
+export const highlightTerms = (node: QueryNode | null): string[] => {
+  if (!node) return [];
+  switch (node.type) {
+    case "and":
+    case "or":
+      return node.children.flatMap(highlightTerms);
+    case "text":
+      return node.value ? [node.value] : [];
+    case "field":
+      return TEXT_FIELDS.includes(node.field) && node.value !== "-"
+        ? [node.value]
+        : [];
+    default:
+      return [];
+  }
+};
+
+export const inspectQuery = (query: string) => {
+  try {
+    const node = parseQuery(query);
+    return { node, terms: highlightTerms(node), error: null };
+  } catch (err) {
+    if (!(err instanceof QuerySyntaxError)) throw err;
+    return { node: null, terms: [], error: err };
+  }
+};
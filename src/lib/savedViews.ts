@@ -0,0 +1,167 @@
+import { useEffect, useState } from "react";
+import type { SavedView, SavedViewsState } from "../types/savedViews";
+
+export const SAVED_VIEWS_STORAGE_KEY = "medmon-saved-views";
+
+const EMPTY_STATE: SavedViewsState = { views: [], defaultViewId: null };
+
+const createId = () =>
+  `view-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const VIEW_PATH_PATTERN =
+  /^\/(?:(?:media|topik|spokesperson)(?:\/[^/?#]+)?|rangkuman|mainframe|kompetitor|nilai-pr|registri-media|registri-spokesperson|rekap-pemberitaan|reports)?$/;
+
+const isViewPath = (value: string) => VIEW_PATH_PATTERN.test(value);
+
+const isValidDate = (value: unknown): value is string =>
+  typeof value === "string" && !Number.isNaN(Date.parse(value));
+
+const isViewCandidate = (value: unknown) => {
+  if (!value || typeof value !== "object") return false;
+  const view = value as Record<string, unknown>;
+  return (
+    typeof view.name === "string" &&
+    typeof view.path === "string" &&
+    typeof view.search === "string" &&
+    !view.search.includes("#")
+  );
+};
+
+const isSavedView = (value: unknown): value is SavedView => {
+  if (!isViewCandidate(value)) return false;
+  const view = value as Record<string, unknown>;
+  return (
+    typeof view.id === "string" &&
+    isViewPath(view.path as string) &&
+    isValidDate(view.createdAt)
+  );
+};
+
+export const loadSavedViews = (): SavedViewsState => {
+  try {
+    const stored = window.localStorage.getItem(SAVED_VIEWS_STORAGE_KEY);
+    if (!stored) return EMPTY_STATE;
+    const parsed = JSON.parse(stored) as Partial<SavedViewsState>;
+    const views = Array.isArray(parsed.views)
+      ? parsed.views.filter(isSavedView)
+      : [];
+    const defaultViewId = views.some((view) => view.id === parsed.defaultViewId)
+      ? (parsed.defaultViewId ?? null)
+      : null;
+    return { views, defaultViewId };
+  } catch {
+    return EMPTY_STATE;
+  }
+};
+
+const persistSavedViews = (state: SavedViewsState) => {
+  window.localStorage.setItem(SAVED_VIEWS_STORAGE_KEY, JSON.stringify(state));
+};
+
+export const viewUrl = (view: Pick<SavedView, "path" | "search">) =>
+  view.search ? `${view.path}?${view.search}` : view.path;
+
+export const applyDefaultView = () => {
+  const { pathname, search } = window.location;
+  if (pathname !== "/" || search) return;
+  const { views, defaultViewId } = loadSavedViews();
+  const defaultView = views.find((view) => view.id === defaultViewId);
+  if (!defaultView) return;
+  try {
+    window.history.replaceState(null, "", viewUrl(defaultView));
+  } catch {
+    // Fall back to the overview when the stored URL is rejected.
+  }
+};
+
+export const parseSavedViewsImport = (text: string): SavedView[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("File bukan JSON yang valid.");
+  }
+
+  const candidates = Array.isArray(parsed)
+    ? parsed
+    : (parsed as Partial<SavedViewsState> | null)?.views;
+  if (!Array.isArray(candidates)) {
+    throw new Error("Format saved view tidak dikenali.");
+  }
+
+  return candidates
+    .filter(isViewCandidate)
+    .map((candidate) => {
+      const view = candidate as Record<string, string>;
+      return {
+        id: createId(),
+        name: view.name.trim() || "Tanpa nama",
+        path: view.path.startsWith("/") ? view.path : `/${view.path}`,
+        search: view.search.replace(/^\?/, ""),
+        createdAt: isValidDate(view.createdAt)
+          ? view.createdAt
+          : new Date().toISOString(),
+      };
+    })
+    .filter((view) => isViewPath(view.path));
+};
+
+export const useSavedViews = () => {
+  const [state, setState] = useState(loadSavedViews);
+
+  useEffect(() => persistSavedViews(state), [state]);
+
+  const update = (updater: (current: SavedViewsState) => SavedViewsState) =>
+    setState(updater);
+
+  const saveView = (name: string, path: string, search: string) =>
+    update((current) => ({
+      ...current,
+      views: [
+        ...current.views,
+        {
+          id: createId(),
+          name,
+          path,
+          search,
+          createdAt: new Date().toISOString(),
+        },
+      ],
+    }));
+
+  const renameView = (id: string, name: string) =>
+    update((current) => ({
+      ...current,
+      views: current.views.map((view) =>
+        view.id === id ? { ...view, name } : view,
+      ),
+    }));
+
+  const deleteView = (id: string) =>
+    update((current) => ({
+      views: current.views.filter((view) => view.id !== id),
+      defaultViewId:
+        current.defaultViewId === id ? null : current.defaultViewId,
+    }));
+
+  const toggleDefaultView = (id: string) =>
+    update((current) => ({
+      ...current,
+      defaultViewId: current.defaultViewId === id ? null : id,
+    }));
+
+  const importViews = (views: SavedView[]) =>
+    update((current) => ({
+      ...current,
+      views: [...current.views, ...views],
+    }));
+
+  return {
+    ...state,
+    saveView,
+    renameView,
+    deleteView,
+    toggleDefaultView,
+    importViews,
+  };
+};
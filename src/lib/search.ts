@@ -0,0 +1,63 @@
+export type TextRange = {
+  start: number;
+  end: number;
+};
+
+const normalizeChar = (char: string) =>
+  char
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLocaleLowerCase("id-ID");
+
+export const normalizeSearchText = (value: string) =>
+  Array.from(value).map(normalizeChar).join("").replace(/\s+/g, " ").trim();
+
+export const findMatches = (text: string, terms: string[]): TextRange[] => {
+  if (!text || terms.length === 0) return [];
+
+  let normalized = "";
+  const offsets: number[] = [];
+  let index = 0;
+  for (const char of text) {
+    const folded = normalizeChar(char);
+    normalized += folded;
+    for (let i = 0; i < folded.length; i += 1) offsets.push(index);
+    index += char.length;
+  }
+  offsets.push(index);
+
+  const ranges = terms.flatMap((term) => {
+    const found: TextRange[] = [];
+    let position = normalized.indexOf(term);
+    while (term && position !== -1) {
+      found.push({
+        start: offsets[position],
+        end: offsets[position + term.length],
+      });
+      position = normalized.indexOf(term, position + term.length);
+    }
+    return found;
+  });
+
+  return ranges
+    .sort((a, b) => a.start - b.start)
+    .reduce<TextRange[]>((merged, range) => {
+      const last = merged[merged.length - 1];
+      if (last && range.start <= last.end) {
+        last.end = Math.max(last.end, range.end);
+      } else {
+        merged.push({ ...range });
+      }
+      return merged;
+    }, []);
+};
+
+export const searchSnippet = (text: string, terms: string[], radius = 80) => {
+  const [first] = findMatches(text, terms);
+  if (!first) return "";
+  const start = Math.max(0, first.start - radius);
+  const end = Math.min(text.length, first.end + radius);
+  return `${start > 0 ? "…" : ""}${text.slice(start, end).trim()}${
+    end < text.length ? "…" : ""
+  }`;
+};
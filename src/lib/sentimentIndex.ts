@@ -0,0 +1,124 @@
+import { useState } from "react";
+import { sentimentScore } from "./coverage";
+import { groupBy, netSentimentScore } from "./coverageSelectors";
+import { reachWeightedSentiment } from "./mediaRegistry";
+import type { CoverageArticle } from "../types/coverage";
+import type {
+  SentimentIndexPoint,
+  SentimentWeights,
+} from "../types/sentimentIndex";
+
+export const SENTIMENT_WEIGHTS_STORAGE_KEY = "medmon-sentiment-weights";
+
+export const DEFAULT_SENTIMENT_WEIGHTS: SentimentWeights = {
+  tiers: { "Tier 1": 1.5, "Tier 2": 1, "Tier 3": 0.5 },
+  mediaType: { Online: 1, Cetak: 1.2 },
+  mainSubject: 1.5,
+  otherSubject: 1,
+};
+
+export const NET_SENTIMENT_FORMULA =
+  "NSS = (jumlah Positif − jumlah Negatif) ÷ total pemberitaan × 100";
+
+export const WEIGHTED_INDEX_FORMULA =
+  "Indeks = Σ(bobot × skor) ÷ Σ bobot × 100, skor Positif = +1, Netral = 0, Negatif = −1; bobot = tier media × jenis media × subjek utama";
+
+export const REACH_WEIGHTED_FORMULA =
+  "Tertimbang jangkauan = Σ(jangkauan media × skor) ÷ Σ jangkauan × 100, hanya media dengan jangkauan di registri";
+
+const isWeight = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value) && value >= 0;
+
+const pickWeights = <T extends Record<string, number>>(
+  value: unknown,
+  fallback: T,
+) => {
+  if (!value || typeof value !== "object") return fallback;
+  return Object.entries(value).reduce(
+    (acc, [key, weight]) =>
+      isWeight(weight) ? { ...acc, [key]: weight } : acc,
+    fallback,
+  );
+};
+
+export const loadSentimentWeights = (): SentimentWeights => {
+  try {
+    const stored = window.localStorage.getItem(SENTIMENT_WEIGHTS_STORAGE_KEY);
+    if (!stored) return DEFAULT_SENTIMENT_WEIGHTS;
+    const parsed = JSON.parse(stored) as Partial<SentimentWeights>;
+    return {
+      tiers: parsed.tiers
+        ? pickWeights(parsed.tiers, {})
+        : DEFAULT_SENTIMENT_WEIGHTS.tiers,
+      mediaType: pickWeights(
+        parsed.mediaType,
+        DEFAULT_SENTIMENT_WEIGHTS.mediaType,
+      ),
+      mainSubject: isWeight(parsed.mainSubject)
+        ? parsed.mainSubject
+        : DEFAULT_SENTIMENT_WEIGHTS.mainSubject,
+      otherSubject: isWeight(parsed.otherSubject)
+        ? parsed.otherSubject
+        : DEFAULT_SENTIMENT_WEIGHTS.otherSubject,
+    };
+  } catch {
+    return DEFAULT_SENTIMENT_WEIGHTS;
+  }
+};
+
+export const articleWeight = (
+  article: CoverageArticle,
+  weights: SentimentWeights,
+) =>
+  (weights.tiers[article.mediaTier] ?? 1) *
+  (weights.mediaType[article.mediaType] ?? 1) *
+  (article.mainSubject ? weights.mainSubject : weights.otherSubject);
+
+export const weightedSentimentIndex = (
+  rows: CoverageArticle[],
+  weights: SentimentWeights,
+) => {
+  const totals = rows.reduce(
+    (acc, row) => {
+      const weight = articleWeight(row, weights);
+      acc.weight += weight;
+      acc.score += weight * sentimentScore[row.sentiment];
+      return acc;
+    },
+    { weight: 0, score: 0 },
+  );
+  return totals.weight ? Math.round((totals.score / totals.weight) * 100) : 0;
+};
+
+export const sentimentIndexBy = (
+  rows: CoverageArticle[],
+  getKey: (row: CoverageArticle) => string,
+  weights: SentimentWeights,
+): SentimentIndexPoint[] => {
+  return Array.from(groupBy(rows, getKey).entries()).map(([period, items]) => ({
+    period,
+    volume: items.length,
+    netScore: netSentimentScore(items),
+    weightedIndex: weightedSentimentIndex(items, weights),
+    reachWeighted: reachWeightedSentiment(items),
+  }));
+};
+
+export const useSentimentWeights = () => {
+  const [weights, setWeights] = useState(loadSentimentWeights);
+
+  const updateWeights = (next: SentimentWeights) => {
+    window.localStorage.setItem(
+      SENTIMENT_WEIGHTS_STORAGE_KEY,
+      JSON.stringify(next),
+    );
+    setWeights(next);
+  };
+
+  const resetWeights = () => {
+    window.localStorage.removeItem(SENTIMENT_WEIGHTS_STORAGE_KEY);
+    setWeights(DEFAULT_SENTIMENT_WEIGHTS);
+  };
+
+  return { weights, updateWeights, resetWeights };
+};
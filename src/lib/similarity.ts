@@ -0,0 +1,92 @@
+import { useEffect, useState } from "react";
+
+export type SimilarPair = {
+  a: string;
+  b: string;
+  score: number;
+};
+
+const bigrams = (value: string) => {
+  const grams = new Map<string, number>();
+  for (let index = 0; index < value.length - 1; index += 1) {
+    const gram = value.slice(index, index + 2);
+    grams.set(gram, (grams.get(gram) ?? 0) + 1);
+  }
+  return grams;
+};
+
+export const diceSimilarity = (a: string, b: string) => {
+  if (a === b) return 1;
+  if (a.length < 2 || b.length < 2) return 0;
+  const gramsA = bigrams(a);
+  const gramsB = bigrams(b);
+  let overlap = 0;
+  gramsA.forEach((count, gram) => {
+    overlap += Math.min(count, gramsB.get(gram) ?? 0);
+  });
+  return (2 * overlap) / (a.length - 1 + (b.length - 1));
+};
+
+export const personNameSimilarity = (a: string, b: string) => {
+  const tokensA = a.split(" ").filter(Boolean);
+  const tokensB = b.split(" ").filter(Boolean);
+  const [shorter, longer] =
+    tokensA.length <= tokensB.length ? [tokensA, tokensB] : [tokensB, tokensA];
+  const contained =
+    shorter.length > 0 &&
+    shorter.every((token) =>
+      longer.some((other) => other === token || other.startsWith(token)),
+    );
+  return Math.max(
+    diceSimilarity(a.replace(/ /g, ""), b.replace(/ /g, "")),
+    contained ? 0.9 : 0,
+  );
+};
+
+export const pairKey = (a: string, b: string) => [a, b].sort().join("\u0000");
+
+export const findSimilarPairs = (
+  names: string[],
+  getKey: (name: string) => string,
+  threshold: number,
+  similarity: (a: string, b: string) => number = diceSimilarity,
+): SimilarPair[] => {
+  const keyed = names.map((name) => ({ name, key: getKey(name) }));
+  const pairs: SimilarPair[] = [];
+  keyed.forEach((left, index) => {
+    keyed.slice(index + 1).forEach((right) => {
+      const score = similarity(left.key, right.key);
+      if (score >= threshold) {
+        pairs.push({ a: left.name, b: right.name, score });
+      }
+    });
+  });
+  return pairs.sort((x, y) => y.score - x.score);
+};
+
+export const useDismissedPairs = (storageKey: string) => {
+  const [dismissed, setDismissed] = useState<string[]>(() => {
+    try {
+      const parsed = JSON.parse(
+        window.localStorage.getItem(storageKey) ?? "[]",
+      ) as unknown;
+      return Array.isArray(parsed)
+        ? parsed.filter((item): item is string => typeof item === "string")
+        : [];
+    } catch {
+      return [];
+    }
+  });
+
+  useEffect(() => {
+    window.localStorage.setItem(storageKey, JSON.stringify(dismissed));
+  }, [storageKey, dismissed]);
+
+  const dismissPair = (a: string, b: string) =>
+    setDismissed((current) => [...current, pairKey(a, b)]);
+
+  const isDismissed = (a: string, b: string) =>
+    dismissed.includes(pairKey(a, b));
+
+  return { dismissPair, isDismissed };
+};
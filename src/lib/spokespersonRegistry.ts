@@ -0,0 +1,159 @@
+import { useEffect, useState } from "react";
+import { spokespersonNameKey, withSpokespersons } from "./coverage";
+import type { CoverageArticle } from "../types/coverage";
+import type {
+  SpokespersonRegistryEntry,
+  SpokespersonRegistryStore,
+} from "../types/spokespersonRegistry";
+
+export const SPOKESPERSON_REGISTRY_STORAGE_KEY = "medmon-spokesperson-registry";
+
+export const SPOKESPERSON_DUPLICATES_STORAGE_KEY =
+  "medmon-spokesperson-dismissed-duplicates";
+
+const createId = () =>
+  `spokesperson-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createSpokespersonEntry = (
+  name: string,
+  patch: Partial<SpokespersonRegistryEntry> = {},
+): SpokespersonRegistryEntry => ({
+  id: createId(),
+  name,
+  aliases: [],
+  title: "",
+  organization: "",
+  photoUrl: "",
+  ...patch,
+});
+
+const readString = (value: unknown) =>
+  typeof value === "string" ? value.trim() : "";
+
+const toRegistryEntry = (value: unknown): SpokespersonRegistryEntry | null => {
+  if (!value || typeof value !== "object") return null;
+  const entry = value as Record<string, unknown>;
+  const name = readString(entry.name);
+  if (!name) return null;
+  return createSpokespersonEntry(name, {
+    id: readString(entry.id) || createId(),
+    aliases: Array.isArray(entry.aliases)
+      ? entry.aliases.filter(
+          (alias): alias is string => typeof alias === "string" && !!alias,
+        )
+      : [],
+    title: readString(entry.title),
+    organization: readString(entry.organization),
+    photoUrl: readString(entry.photoUrl),
+  });
+};
+
+const toRegistryEntries = (values: unknown[]) =>
+  values
+    .map(toRegistryEntry)
+    .filter((entry): entry is SpokespersonRegistryEntry => entry !== null);
+
+export const loadSpokespersonRegistry = (): SpokespersonRegistryEntry[] => {
+  try {
+    const stored = window.localStorage.getItem(
+      SPOKESPERSON_REGISTRY_STORAGE_KEY,
+    );
+    if (!stored) return [];
+    const parsed = JSON.parse(stored) as { entries?: unknown };
+    return Array.isArray(parsed.entries)
+      ? toRegistryEntries(parsed.entries)
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+const persistSpokespersonRegistry = (entries: SpokespersonRegistryEntry[]) => {
+  window.localStorage.setItem(
+    SPOKESPERSON_REGISTRY_STORAGE_KEY,
+    JSON.stringify({ entries }),
+  );
+};
+
+export const parseSpokespersonRegistryImport = (text: string) => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("File bukan JSON yang valid.");
+  }
+
+  const candidates = Array.isArray(parsed)
+    ? parsed
+    : (parsed as { entries?: unknown } | null)?.entries;
+  if (!Array.isArray(candidates)) {
+    throw new Error("Format registri spokesperson tidak dikenali.");
+  }
+  return toRegistryEntries(candidates);
+};
+
+export const buildSpokespersonLookup = (
+  entries: SpokespersonRegistryEntry[],
+) => {
+  const lookup = new Map<string, SpokespersonRegistryEntry>();
+  entries.forEach((entry) => {
+    [entry.name, ...entry.aliases].forEach((name) => {
+      const key = spokespersonNameKey(name);
+      if (key && !lookup.has(key)) lookup.set(key, entry);
+    });
+  });
+  return lookup;
+};
+
+export const applySpokespersonRegistry = (
+  articles: CoverageArticle[],
+  entries: SpokespersonRegistryEntry[],
+) => {
+  if (entries.length === 0) return articles;
+  const lookup = buildSpokespersonLookup(entries);
+  return articles.map((article) =>
+    withSpokespersons(
+      article,
+      article.spokespersons.map(
+        (name) => lookup.get(spokespersonNameKey(name))?.name ?? name,
+      ),
+    ),
+  );
+};
+
+export const useSpokespersonRegistry = (): SpokespersonRegistryStore => {
+  const [entries, setEntries] = useState(loadSpokespersonRegistry);
+
+  useEffect(() => persistSpokespersonRegistry(entries), [entries]);
+
+  const update = (
+    updater: (
+      current: SpokespersonRegistryEntry[],
+    ) => SpokespersonRegistryEntry[],
+  ) => setEntries(updater);
+
+  const saveEntry = (entry: SpokespersonRegistryEntry) =>
+    update((current) =>
+      current.some((item) => item.id === entry.id)
+        ? current.map((item) => (item.id === entry.id ? entry : item))
+        : [...current, entry],
+    );
+
+  const deleteEntry = (id: string) =>
+    update((current) => current.filter((item) => item.id !== id));
+
+  const importEntries = (imported: SpokespersonRegistryEntry[]) =>
+    update((current) => {
+      const byName = new Map(
+        current.map((item) => [spokespersonNameKey(item.name), item]),
+      );
+      imported.forEach((entry) => {
+        const key = spokespersonNameKey(entry.name);
+        const existing = byName.get(key);
+        byName.set(key, existing ? { ...entry, id: existing.id } : entry);
+      });
+      return Array.from(byName.values());
+    });
+
+  return { entries, saveEntry, deleteEntry, importEntries };
+};
@@ -0,0 +1,49 @@
+import { useEffect, useRef, useState } from "react";
+import type { FilterUpdateOptions } from "../types/filters";
+
+export const useDraftValue = (
+  value: string,
+  onCommit: (value: string, options: FilterUpdateOptions) => void,
+  delay = 400,
+) => {
+  const [draft, setDraft] = useState(value);
+  const [synced, setSynced] = useState(value);
+  const timer = useRef<number | undefined>(undefined);
+  const committed = useRef(value);
+  const editing = useRef(false);
+  const commitRef = useRef(onCommit);
+
+  if (value !== synced) {
+    setSynced(value);
+    setDraft(value);
+  }
+
+  useEffect(() => {
+    commitRef.current = onCommit;
+    committed.current = value;
+  });
+
+  useEffect(() => () => window.clearTimeout(timer.current), []);
+
+  const send = (next: string, typing: boolean) => {
+    window.clearTimeout(timer.current);
+    if (next !== committed.current) {
+      setSynced(next);
+      commitRef.current(next, { replace: editing.current });
+      committed.current = next;
+      editing.current = typing;
+    } else if (!typing) {
+      editing.current = false;
+    }
+  };
+
+  const change = (next: string) => {
+    setDraft(next);
+    window.clearTimeout(timer.current);
+    timer.current = window.setTimeout(() => send(next, true), delay);
+  };
+
+  const flush = () => send(draft, false);
+
+  return { draft, change, flush };
+};
@@ -0,0 +1,34 @@
+import { useMemo } from "react";
+import { useSearchParams } from "react-router-dom";
+
+export const usePagination = <T>(
+  items: T[],
+  pageSize: number,
+  param = "page",
+) => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const requestedPage = Math.max(1, Number(searchParams.get(param)) || 1);
+
+  const totalPages = Math.max(1, Math.ceil(items.length / pageSize));
+  const page = Math.min(requestedPage, totalPages);
+
+  const pageItems = useMemo(
+    () => items.slice((page - 1) * pageSize, page * pageSize),
+    [items, page, pageSize],
+  );
+
+  const setPage = (next: number | ((current: number) => number)) => {
+    const value = typeof next === "function" ? next(page) : next;
+    setSearchParams((current) => {
+      const params = new URLSearchParams(current);
+      if (value <= 1) {
+        params.delete(param);
+      } else {
+        params.set(param, String(value));
+      }
+      return params;
+    });
+  };
+
+  return { page, totalPages, pageItems, setPage };
+};
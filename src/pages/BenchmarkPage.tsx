@@ -0,0 +1,383 @@
+import { useMemo } from "react";
+import { useOutletContext } from "react-router-dom";
+import {
+  Area,
+  AreaChart,
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { Card, CardContent } from "../components/ui/card";
+import ProfileLink from "../components/ProfileLink";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../components/ui/select";
+import {
+  OTHER_COMPANIES,
+  competitorTopicGaps,
+  dominantOutlets,
+  shareOfVoiceByPeriod,
+  toneMixByCompany,
+  useClientCompany,
+} from "../lib/benchmark";
+import { sentimentColors } from "../lib/coverage";
+import {
+  TREND_GRANULARITIES,
+  formatPeriod,
+  periodStart,
+} from "../lib/dateRange";
+import { applyFilters } from "../lib/filters";
+import { mediaProfilePath, topicDetailPath } from "../lib/profileLinks";
+import { SENTIMENT_LABELS } from "../types/coverage";
+import type { DashboardContext } from "../types/dashboard";
+import type { TrendGranularity } from "../types/filters";
+
+const companyPalette = [
+  "#0ea5e9",
+  "#f59e0b",
+  "#a855f7",
+  "#14b8a6",
+  "#f97316",
+  "#6366f1",
+  "#94a3b8",
+];
+
+const TOP_COMPANIES = 6;
+
+const BenchmarkPage = () => {
+  const { coverage, filters, updateFilters } =
+    useOutletContext<DashboardContext>();
+  const { articles, loading, error } = coverage;
+  const { granularity } = filters;
+  const { clientCompany, updateClientCompany } = useClientCompany();
+
+  const benchmarkArticles = useMemo(
+    () => applyFilters(articles, { ...filters, company: [] }),
+    [articles, filters],
+  );
+
+  const toneMix = useMemo(
+    () => toneMixByCompany(benchmarkArticles),
+    [benchmarkArticles],
+  );
+  const companies = useMemo(
+    () => toneMix.map((item) => item.company),
+    [toneMix],
+  );
+  const ourCompany = useMemo(
+    () =>
+      companies.includes(clientCompany) ? clientCompany : (companies[0] ?? ""),
+    [companies, clientCompany],
+  );
+
+  const sovCompanies = useMemo(() => {
+    const top = toneMix.slice(0, TOP_COMPANIES).map((item) => item.company);
+    return toneMix.length > TOP_COMPANIES ? [...top, OTHER_COMPANIES] : top;
+  }, [toneMix]);
+
+  const shareOfVoice = useMemo(
+    () =>
+      shareOfVoiceByPeriod(benchmarkArticles, sovCompanies, (row) =>
+        row.publishedDate ? periodStart(row.publishedDate, granularity) : "",
+      ),
+    [benchmarkArticles, sovCompanies, granularity],
+  );
+
+  const outlets = useMemo(
+    () => dominantOutlets(benchmarkArticles).slice(0, 12),
+    [benchmarkArticles],
+  );
+
+  const topicGaps = useMemo(
+    () => competitorTopicGaps(benchmarkArticles, ourCompany).slice(0, 12),
+    [benchmarkArticles, ourCompany],
+  );
+
+  if (loading) {
+    return (
+      <section className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+        {Array.from({ length: 3 }).map((_, index) => (
+          <div
+            key={index}
+            className="h-80 rounded-2xl border bg-white shadow-sm animate-pulse"
+          />
+        ))}
+      </section>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="rounded-2xl border bg-white p-8 text-center shadow-sm">
+        <h3 className="text-xl font-semibold">Data gagal dimuat</h3>
+        <p className="mt-2 text-sm text-slate-500">{error}</p>
+      </div>
+    );
+  }
+
+  if (companies.length === 0) {
+    return (
+      <div className="rounded-2xl border bg-white p-8 text-center shadow-sm">
+        <h3 className="text-xl font-semibold">Belum ada data perusahaan</h3>
+        <p className="mt-2 text-sm text-slate-500">
+          Tidak ada pemberitaan untuk filter yang dipilih.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <section className="space-y-4">
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="flex min-w-[200px] flex-col gap-2">
+          <label className="text-xs text-slate-500" htmlFor="clientCompany">
+            Perusahaan kami
+          </label>
+          <Select value={ourCompany} onValueChange={updateClientCompany}>
+            <SelectTrigger id="clientCompany">
+              <SelectValue placeholder="Perusahaan kami" />
+            </SelectTrigger>
+            <SelectContent>
+              {companies.map((company) => (
+                <SelectItem key={company} value={company}>
+                  {company}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex min-w-[150px] flex-col gap-2">
+          <label className="text-xs text-slate-500" htmlFor="sovGranularity">
+            Granularitas
+          </label>
+          <Select
+            value={granularity}
+            onValueChange={(value) =>
+              updateFilters({ granularity: value as TrendGranularity })
+            }
+          >
+            <SelectTrigger id="sovGranularity">
+              <SelectValue placeholder="Granularitas" />
+            </SelectTrigger>
+            <SelectContent>
+              {TREND_GRANULARITIES.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 xl:grid-cols-4">
+        {toneMix.slice(0, 4).map((item) => (
+          <Card
+            key={item.company}
+            className={`rounded-2xl border bg-white shadow-sm ${
+              item.company === ourCompany ? "ring-2 ring-sky-400" : ""
+            }`}
+          >
+            <CardContent className="p-6">
+              <p className="text-sm text-slate-500">{item.company}</p>
+              <h2 className="text-2xl font-bold">{item.share}%</h2>
+              <span className="text-xs text-slate-400">
+                Share of voice · {item.total} pemberitaan · NSS {item.netScore}
+              </span>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card className="rounded-2xl border bg-white shadow-sm">
+        <div className="flex items-center justify-between gap-3 p-6 pb-2">
+          <h3>Share of Voice</h3>
+          <span className="text-xs text-slate-400">
+            Porsi pemberitaan per perusahaan
+          </span>
+        </div>
+        <div className="h-[320px] w-full px-6 pb-6">
+          <ResponsiveContainer width="100%" height={300}>
+            <AreaChart
+              data={shareOfVoice}
+              margin={{ top: 10, right: 16, left: -10, bottom: 0 }}
+            >
+              <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+              <XAxis
+                dataKey="period"
+                tickFormatter={(value) => formatPeriod(value, granularity)}
+              />
+              <YAxis domain={[0, 100]} unit="%" />
+              <Tooltip
+                formatter={(value) => `${value}%`}
+                labelFormatter={(label) => formatPeriod(label, granularity)}
+              />
+              <Legend />
+              {sovCompanies.map((company, index) => (
+                <Area
+                  key={company}
+                  type="monotone"
+                  dataKey={company}
+                  stackId="sov"
+                  stroke={companyPalette[index % companyPalette.length]}
+                  fill={companyPalette[index % companyPalette.length]}
+                  fillOpacity={0.6}
+                />
+              ))}
+            </AreaChart>
+          </ResponsiveContainer>
+        </div>
+      </Card>
+
+      <Card className="rounded-2xl border bg-white shadow-sm">
+        <div className="flex items-center justify-between gap-3 p-6 pb-2">
+          <h3>Komposisi Tone per Perusahaan</h3>
+          <span className="text-xs text-slate-400">Porsi sentimen (%)</span>
+        </div>
+        <div className="w-full px-6 pb-6">
+          <ResponsiveContainer
+            width="100%"
+            height={Math.max(160, toneMix.length * 40)}
+          >
+            <BarChart
+              data={toneMix}
+              layout="vertical"
+              margin={{ top: 10, right: 16, left: 40, bottom: 0 }}
+            >
+              <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+              <XAxis type="number" domain={[0, 100]} unit="%" />
+              <YAxis type="category" dataKey="company" width={120} />
+              <Tooltip formatter={(value) => `${value}%`} />
+              <Legend />
+              {SENTIMENT_LABELS.map((label) => (
+                <Bar
+                  key={label}
+                  dataKey={label}
+                  stackId="tone"
+                  fill={sentimentColors[label]}
+                />
+              ))}
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </Card>
+
+      <div className="grid gap-4 xl:grid-cols-2">
+        <Card className="rounded-2xl border bg-white shadow-sm">
+          <div className="flex items-center justify-between gap-3 p-6 pb-2">
+            <h3>Media Dominan</h3>
+            <span className="text-xs text-slate-400">
+              Perusahaan dengan porsi terbesar per media
+            </span>
+          </div>
+          <div className="overflow-x-auto px-6 pb-6">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-xs text-slate-500">
+                  <th className="py-2 pr-3 font-medium">Media</th>
+                  <th className="px-2 py-2 font-medium">Perusahaan</th>
+                  <th className="py-2 pl-2 text-right font-medium">Porsi</th>
+                </tr>
+              </thead>
+              <tbody>
+                {outlets.map((outlet) => (
+                  <tr key={outlet.media} className="border-b last:border-0">
+                    <td className="py-2 pr-3 font-medium text-slate-900">
+                      <ProfileLink to={mediaProfilePath(outlet.media)}>
+                        {outlet.media}
+                      </ProfileLink>
+                    </td>
+                    <td
+                      className={`px-2 py-2 ${
+                        outlet.company === ourCompany
+                          ? "font-semibold text-sky-600"
+                          : ""
+                      }`}
+                    >
+                      {outlet.company}
+                    </td>
+                    <td className="py-2 pl-2 text-right">
+                      {outlet.share}%
+                      <span className="ml-1 text-xs text-slate-400">
+                        dari {outlet.total}
+                      </span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </Card>
+
+        <Card className="rounded-2xl border bg-white shadow-sm">
+          <div className="flex items-center justify-between gap-3 p-6 pb-2">
+            <h3>Topik Kompetitor Unggul</h3>
+            <span className="text-xs text-slate-400">
+              NSS kompetitor lebih tinggi dari {ourCompany}
+            </span>
+          </div>
+          <div className="overflow-x-auto px-6 pb-6">
+            {topicGaps.length === 0 ? (
+              <p className="text-sm text-slate-500">
+                Tidak ada topik di mana kompetitor unggul.
+              </p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-xs text-slate-500">
+                    <th className="py-2 pr-3 font-medium">Topik</th>
+                    <th className="px-2 py-2 font-medium">Kompetitor</th>
+                    <th className="px-2 py-2 text-right font-medium">
+                      NSS kompetitor
+                    </th>
+                    <th className="py-2 pl-2 text-right font-medium">
+                      NSS kami
+                    </th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {topicGaps.map((gap) => (
+                    <tr
+                      key={`${gap.topic}-${gap.company}`}
+                      className="border-b last:border-0"
+                    >
+                      <td className="py-2 pr-3 font-medium text-slate-900">
+                        <ProfileLink to={topicDetailPath(gap.topic)}>
+                          {gap.topic}
+                        </ProfileLink>
+                      </td>
+                      <td className="px-2 py-2">{gap.company}</td>
+                      <td className="px-2 py-2 text-right text-emerald-600">
+                        {gap.theirScore}
+                        <span className="ml-1 text-xs text-slate-400">
+                          ({gap.theirVolume})
+                        </span>
+                      </td>
+                      <td className="py-2 pl-2 text-right text-rose-600">
+                        {gap.ourScore}
+                        <span className="ml-1 text-xs text-slate-400">
+                          ({gap.ourVolume})
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </Card>
+      </div>
+    </section>
+  );
+};
+
+export default BenchmarkPage;
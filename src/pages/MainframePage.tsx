@@ -0,0 +1,409 @@
+import { useMemo } from "react";
+import { useOutletContext } from "react-router-dom";
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { Card } from "../components/ui/card";
+import ComparisonDelta from "../components/ComparisonDelta";
+import ProfileLink from "../components/ProfileLink";
+import { sentimentColors } from "../lib/coverage";
+import {
+  countSentiments,
+  distributionBy,
+  groupBy,
+  netSentimentScore,
+} from "../lib/coverageSelectors";
+import { startOfIsoWeek } from "../lib/dateRange";
+import { applyComparisonFilters } from "../lib/filters";
+import { mediaProfilePath } from "../lib/profileLinks";
+import { SENTIMENT_LABELS } from "../types/coverage";
+import type { DashboardContext } from "../types/dashboard";
+
+const framePalette = [
+  "#0ea5e9",
+  "#22c55e",
+  "#f59e0b",
+  "#a855f7",
+  "#14b8a6",
+  "#f97316",
+];
+
+const TOP_FRAMES = 6;
+const TOP_MEDIA = 8;
+
+const formatDate = (value: string) => {
+  if (!value) return "-";
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime())) return value;
+  return parsed.toLocaleDateString("id-ID", {
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+  });
+};
+
+const share = (count: number, total: number) =>
+  total ? Math.round((count / total) * 100) : 0;
+
+const heatStyle = (value: number, max: number) => ({
+  backgroundColor: `rgba(14, 165, 233, ${max ? (value / max) * 0.6 : 0})`,
+});
+
+const MainframePage = () => {
+  const { coverage, filters, filteredArticles, comparisonArticles } =
+    useOutletContext<DashboardContext>();
+  const { articles, loading, error } = coverage;
+
+  const frameDistribution = useMemo(
+    () => distributionBy(filteredArticles, (row) => row.mainframe),
+    [filteredArticles],
+  );
+  const topFrames = useMemo(
+    () => frameDistribution.slice(0, TOP_FRAMES).map((item) => item.name),
+    [frameDistribution],
+  );
+
+  const weeklyFrames = useMemo(() => {
+    const grouped = new Map<string, Record<string, number | string>>();
+    filteredArticles.forEach((row) => {
+      if (!row.publishedDate || !topFrames.includes(row.mainframe)) return;
+      const week = startOfIsoWeek(row.publishedDate);
+      const entry =
+        grouped.get(week) ??
+        Object.fromEntries([
+          ["week", week],
+          ...topFrames.map((frame) => [frame, 0]),
+        ]);
+      entry[row.mainframe] = Number(entry[row.mainframe]) + 1;
+      grouped.set(week, entry);
+    });
+    return Array.from(grouped.values()).sort((a, b) =>
+      String(a.week).localeCompare(String(b.week)),
+    );
+  }, [filteredArticles, topFrames]);
+
+  const framesBySentiment = useMemo(() => {
+    const byFrame = groupBy(filteredArticles, (row) => row.mainframe);
+    return frameDistribution.map((item) => {
+      const rows = byFrame.get(item.name) ?? [];
+      return {
+        name: item.name,
+        total: item.value,
+        counts: countSentiments(rows),
+        netScore: netSentimentScore(rows),
+        examples: [...rows]
+          .sort((a, b) => b.publishedDate.localeCompare(a.publishedDate))
+          .slice(0, 3),
+      };
+    });
+  }, [filteredArticles, frameDistribution]);
+
+  const topMedia = useMemo(
+    () =>
+      distributionBy(filteredArticles, (row) => row.media)
+        .slice(0, TOP_MEDIA)
+        .map((item) => item.name),
+    [filteredArticles],
+  );
+
+  const frameMediaMatrix = useMemo(() => {
+    const counts: Record<string, Record<string, number>> = {};
+    filteredArticles.forEach((row) => {
+      counts[row.mainframe] ??= {};
+      counts[row.mainframe][row.media] =
+        (counts[row.mainframe][row.media] ?? 0) + 1;
+    });
+    return counts;
+  }, [filteredArticles]);
+  const maxFrameMedia = Math.max(
+    0,
+    ...topFrames.flatMap((frame) =>
+      topMedia.map((media) => frameMediaMatrix[frame]?.[media] ?? 0),
+    ),
+  );
+
+  const previousArticles = useMemo(
+    () =>
+      comparisonArticles ??
+      applyComparisonFilters(articles, { ...filters, compare: "previous" }),
+    [comparisonArticles, articles, filters],
+  );
+
+  const frameMomentum = useMemo(() => {
+    if (!previousArticles) return null;
+    const previousCounts = Object.fromEntries(
+      distributionBy(previousArticles, (row) => row.mainframe).map((item) => [
+        item.name,
+        item.value,
+      ]),
+    );
+    const frames = new Set([
+      ...frameDistribution.map((item) => item.name),
+      ...Object.keys(previousCounts),
+    ]);
+    const currentCounts = Object.fromEntries(
+      frameDistribution.map((item) => [item.name, item.value]),
+    );
+    return Array.from(frames)
+      .map((name) => ({
+        name,
+        current: currentCounts[name] ?? 0,
+        previous: previousCounts[name] ?? 0,
+        currentShare: share(currentCounts[name] ?? 0, filteredArticles.length),
+        previousShare: share(
+          previousCounts[name] ?? 0,
+          previousArticles.length,
+        ),
+      }))
+      .sort(
+        (a, b) =>
+          b.currentShare - b.previousShare - (a.currentShare - a.previousShare),
+      );
+  }, [previousArticles, frameDistribution, filteredArticles.length]);
+
+  if (loading) {
+    return (
+      <section className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+        {Array.from({ length: 3 }).map((_, index) => (
+          <div
+            key={index}
+            className="h-80 rounded-2xl border bg-white shadow-sm animate-pulse"
+          />
+        ))}
+      </section>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="rounded-2xl border bg-white p-8 text-center shadow-sm">
+        <h3 className="text-xl font-semibold">Data gagal dimuat</h3>
+        <p className="mt-2 text-sm text-slate-500">{error}</p>
+      </div>
+    );
+  }
+
+  return (
+    <section className="space-y-4">
+      <Card className="rounded-2xl border bg-white shadow-sm">
+        <div className="flex items-center justify-between gap-3 p-6 pb-2">
+          <h3>Pergerakan Mainframe</h3>
+          <span className="text-xs text-slate-400">
+            Jumlah pemberitaan per minggu, {TOP_FRAMES} mainframe teratas
+          </span>
+        </div>
+        <div className="h-[320px] w-full px-6 pb-6">
+          <ResponsiveContainer width="100%" height={300}>
+            <LineChart
+              data={weeklyFrames}
+              margin={{ top: 10, right: 16, left: -10, bottom: 0 }}
+            >
+              <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+              <XAxis dataKey="week" tickFormatter={formatDate} />
+              <YAxis allowDecimals={false} />
+              <Tooltip
+                labelFormatter={(label) => `Minggu mulai ${formatDate(label)}`}
+              />
+              <Legend />
+              {topFrames.map((frame, index) => (
+                <Line
+                  key={frame}
+                  type="monotone"
+                  dataKey={frame}
+                  stroke={framePalette[index % framePalette.length]}
+                  strokeWidth={2}
+                  dot={false}
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </Card>
+
+      <div className="grid gap-4 xl:grid-cols-2">
+        <Card className="rounded-2xl border bg-white shadow-sm">
+          <div className="flex items-center justify-between gap-3 p-6 pb-2">
+            <h3>Mainframe × Sentimen</h3>
+            <span className="text-xs text-slate-400">Jumlah dan porsi</span>
+          </div>
+          <div className="overflow-x-auto px-6 pb-6">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-xs text-slate-500">
+                  <th className="py-2 pr-3 font-medium">Mainframe</th>
+                  {SENTIMENT_LABELS.map((label) => (
+                    <th
+                      key={label}
+                      className="px-2 py-2 text-right font-medium"
+                    >
+                      {label}
+                    </th>
+                  ))}
+                  <th className="py-2 pl-2 text-right font-medium">Skor</th>
+                </tr>
+              </thead>
+              <tbody>
+                {framesBySentiment.map((frame) => (
+                  <tr key={frame.name} className="border-b last:border-0">
+                    <td className="py-2 pr-3 font-medium text-slate-900">
+                      {frame.name}
+                    </td>
+                    {SENTIMENT_LABELS.map((label) => (
+                      <td key={label} className="px-2 py-2 text-right">
+                        <span style={{ color: sentimentColors[label] }}>
+                          {frame.counts[label]}
+                        </span>
+                        <span className="ml-1 text-xs text-slate-400">
+                          {share(frame.counts[label], frame.total)}%
+                        </span>
+                      </td>
+                    ))}
+                    <td className="py-2 pl-2 text-right font-semibold">
+                      {frame.netScore}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </Card>
+
+        <Card className="rounded-2xl border bg-white shadow-sm">
+          <div className="flex items-center justify-between gap-3 p-6 pb-2">
+            <h3>Naik &amp; Turun</h3>
+            <span className="text-xs text-slate-400">
+              Porsi mainframe dibanding periode sebelumnya
+            </span>
+          </div>
+          <div className="space-y-2 px-6 pb-6">
+            {!frameMomentum ? (
+              <p className="text-sm text-slate-500">
+                Pilih periode tanggal untuk membandingkan dengan periode
+                sebelumnya.
+              </p>
+            ) : (
+              frameMomentum.map((frame) => (
+                <div
+                  key={frame.name}
+                  className="flex items-center justify-between gap-3 border-b py-2 text-sm last:border-0"
+                >
+                  <div className="min-w-0">
+                    <p className="truncate font-medium text-slate-900">
+                      {frame.name}
+                    </p>
+                    <p className="text-xs text-slate-400">
+                      {frame.previous} → {frame.current} pemberitaan
+                    </p>
+                  </div>
+                  <ComparisonDelta
+                    current={frame.currentShare}
+                    previous={frame.previousShare}
+                    unit="points"
+                    label="porsi"
+                  />
+                </div>
+              ))
+            )}
+          </div>
+        </Card>
+      </div>
+
+      <Card className="rounded-2xl border bg-white shadow-sm">
+        <div className="flex items-center justify-between gap-3 p-6 pb-2">
+          <h3>Mainframe × Media</h3>
+          <span className="text-xs text-slate-400">
+            {TOP_FRAMES} mainframe dan {TOP_MEDIA} media teratas
+          </span>
+        </div>
+        <div className="overflow-x-auto px-6 pb-6">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-xs text-slate-500">
+                <th className="py-2 pr-3 font-medium">Mainframe</th>
+                {topMedia.map((media) => (
+                  <th key={media} className="px-2 py-2 text-center font-medium">
+                    <ProfileLink to={mediaProfilePath(media)}>
+                      {media}
+                    </ProfileLink>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {topFrames.map((frame) => (
+                <tr key={frame} className="border-b last:border-0">
+                  <td className="py-2 pr-3 font-medium text-slate-900">
+                    {frame}
+                  </td>
+                  {topMedia.map((media) => {
+                    const value = frameMediaMatrix[frame]?.[media] ?? 0;
+                    return (
+                      <td
+                        key={media}
+                        className="px-2 py-2 text-center tabular-nums"
+                        style={heatStyle(value, maxFrameMedia)}
+                      >
+                        {value || "-"}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+
+      <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+        {framesBySentiment.slice(0, TOP_FRAMES).map((frame) => (
+          <Card
+            key={frame.name}
+            className="rounded-2xl border bg-white shadow-sm"
+          >
+            <div className="flex items-center justify-between gap-3 p-6 pb-2">
+              <h3 className="truncate">{frame.name}</h3>
+              <span className="text-xs text-slate-400">
+                {frame.total} pemberitaan
+              </span>
+            </div>
+            <ul className="space-y-3 px-6 pb-6 pt-2">
+              {frame.examples.map((article) => (
+                <li key={article.id} className="space-y-1">
+                  <p className="text-sm font-medium text-slate-900">
+                    {article.url ? (
+                      <a
+                        href={article.url}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="hover:underline"
+                      >
+                        {article.title}
+                      </a>
+                    ) : (
+                      article.title
+                    )}
+                  </p>
+                  <p className="text-xs text-slate-500">
+                    {formatDate(article.publishedDate)} · {article.media} ·{" "}
+                    <span style={{ color: sentimentColors[article.sentiment] }}>
+                      {article.sentiment}
+                    </span>
+                  </p>
+                </li>
+              ))}
+            </ul>
+          </Card>
+        ))}
+      </div>
+    </section>
+  );
+};
+
+export default MainframePage;
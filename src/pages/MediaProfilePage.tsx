@@ -0,0 +1,331 @@
+import { useMemo } from "react";
+import { Link, useOutletContext, useParams } from "react-router-dom";
+import {
+  CartesianGrid,
+  Cell,
+  Line,
+  LineChart,
+  Pie,
+  PieChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { ArrowLeft } from "lucide-react";
+import { Badge } from "../components/ui/badge";
+import { Card, CardContent } from "../components/ui/card";
+import ComparisonDelta from "../components/ComparisonDelta";
+import LatestArticles from "../components/LatestArticles";
+import RankedList from "../components/RankedList";
+import { sentimentColors } from "../lib/coverage";
+import {
+  countSentiments,
+  distributionBy,
+  groupBy,
+  netSentimentScore,
+  sentimentTrend,
+} from "../lib/coverageSelectors";
+import { applyFilters } from "../lib/filters";
+import { spokespersonProfilePath, topicDetailPath } from "../lib/profileLinks";
+import { SENTIMENT_LABELS } from "../types/coverage";
+import type { DashboardContext } from "../types/dashboard";
+
+const formatDate = (value: string) => {
+  if (!value) return "-";
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime())) return value;
+  return parsed.toLocaleDateString("id-ID", {
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+  });
+};
+
+const MediaProfilePage = () => {
+  const { name = "" } = useParams();
+  const { coverage, filters, filterSearch } =
+    useOutletContext<DashboardContext>();
+  const { articles, loading, error } = coverage;
+
+  const scopedArticles = useMemo(
+    () => applyFilters(articles, { ...filters, media: [] }),
+    [articles, filters],
+  );
+
+  const outletArticles = useMemo(
+    () => scopedArticles.filter((row) => row.media === name),
+    [scopedArticles, name],
+  );
+
+  const total = outletArticles.length;
+  const sentimentCounts = countSentiments(outletArticles);
+  const netScore = netSentimentScore(outletArticles);
+
+  const averageNetScore = useMemo(() => {
+    const outlets = groupBy(scopedArticles, (row) => row.media);
+    if (outlets.size === 0) return 0;
+    const scores = Array.from(outlets.values()).map(netSentimentScore);
+    return Math.round(
+      scores.reduce((sum, score) => sum + score, 0) / scores.length,
+    );
+  }, [scopedArticles]);
+
+  const trend = useMemo(() => sentimentTrend(outletArticles), [outletArticles]);
+
+  const toneMix = SENTIMENT_LABELS.map((label) => ({
+    name: label,
+    value: sentimentCounts[label],
+  }));
+
+  const topTopics = useMemo(
+    () => distributionBy(outletArticles, (row) => row.topic).slice(0, 8),
+    [outletArticles],
+  );
+
+  const topSpokespersons = useMemo(
+    () =>
+      distributionBy(outletArticles, (row) => row.spokespersons).slice(0, 8),
+    [outletArticles],
+  );
+
+  const mediaType = distributionBy(outletArticles, (row) => row.mediaType)[0]
+    ?.name;
+  const mediaScope = distributionBy(outletArticles, (row) => row.mediaScope)[0]
+    ?.name;
+
+  const latestArticles = useMemo(
+    () =>
+      [...outletArticles]
+        .sort((a, b) => b.publishedDate.localeCompare(a.publishedDate))
+        .slice(0, 10),
+    [outletArticles],
+  );
+
+  const knownOutlet = articles.some((row) => row.media === name);
+
+  if (loading) {
+    return (
+      <section className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+        {Array.from({ length: 3 }).map((_, index) => (
+          <div
+            key={index}
+            className="h-80 rounded-2xl border bg-white shadow-sm animate-pulse"
+          />
+        ))}
+      </section>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="rounded-2xl border bg-white p-8 text-center shadow-sm">
+        <h3 className="text-xl font-semibold">Data gagal dimuat</h3>
+        <p className="mt-2 text-sm text-slate-500">{error}</p>
+      </div>
+    );
+  }
+
+  return (
+    <section className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="space-y-1">
+          <Link
+            to={{ pathname: "/media", search: filterSearch }}
+            className="inline-flex items-center gap-1 text-xs text-slate-500 hover:text-slate-900"
+          >
+            <ArrowLeft className="h-3.5 w-3.5" />
+            Sebaran Media
+          </Link>
+          <h2 className="text-2xl font-bold">{name}</h2>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {mediaType ? <Badge variant="outline">{mediaType}</Badge> : null}
+          {mediaScope ? <Badge variant="outline">{mediaScope}</Badge> : null}
+        </div>
+      </div>
+
+      {!knownOutlet ? (
+        <div className="rounded-2xl border bg-white p-8 text-center shadow-sm">
+          <h3 className="text-xl font-semibold">Media tidak ditemukan</h3>
+          <p className="mt-2 text-sm text-slate-500">
+            Tidak ada pemberitaan dari "{name}" di data sheet.
+          </p>
+        </div>
+      ) : total === 0 ? (
+        <div className="rounded-2xl border bg-white p-8 text-center shadow-sm">
+          <h3 className="text-xl font-semibold">Belum ada pemberitaan</h3>
+          <p className="mt-2 text-sm text-slate-500">
+            Tidak ada pemberitaan dari {name} pada filter saat ini.
+          </p>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-4 xl:grid-cols-4">
+            <Card className="rounded-2xl border bg-white shadow-sm">
+              <CardContent className="p-6">
+                <p className="text-sm text-slate-500">Total Pemberitaan</p>
+                <h2 className="text-2xl font-bold">{total}</h2>
+                <span className="text-xs text-slate-400">
+                  Artikel terpantau
+                </span>
+              </CardContent>
+            </Card>
+            <Card className="rounded-2xl border bg-white shadow-sm">
+              <CardContent className="p-6">
+                <p className="text-sm text-slate-500">% Positif</p>
+                <h2 className="text-2xl font-bold">
+                  {Math.round((sentimentCounts.Positif / total) * 100)}%
+                </h2>
+                <span className="text-xs text-slate-400">
+                  {sentimentCounts.Positif} artikel
+                </span>
+              </CardContent>
+            </Card>
+            <Card className="rounded-2xl border bg-white shadow-sm">
+              <CardContent className="p-6">
+                <p className="text-sm text-slate-500">% Negatif</p>
+                <h2 className="text-2xl font-bold">
+                  {Math.round((sentimentCounts.Negatif / total) * 100)}%
+                </h2>
+                <span className="text-xs text-slate-400">
+                  {sentimentCounts.Negatif} artikel
+                </span>
+              </CardContent>
+            </Card>
+            <Card className="rounded-2xl border bg-white shadow-sm">
+              <CardContent className="p-6">
+                <p className="text-sm text-slate-500">Favorabilitas</p>
+                <h2 className="text-2xl font-bold">{netScore}</h2>
+                <span className="text-xs text-slate-400">
+                  Rata-rata media: {averageNetScore}
+                </span>
+                <div className="mt-1">
+                  <ComparisonDelta
+                    current={netScore}
+                    previous={averageNetScore}
+                    unit="score"
+                    label="vs rata-rata"
+                  />
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="grid gap-4 lg:grid-cols-3">
+            <Card className="rounded-2xl border bg-white shadow-sm lg:col-span-2">
+              <div className="flex items-center justify-between gap-3 p-6 pb-2">
+                <h3>Volume &amp; Sentimen</h3>
+                <span className="text-xs text-slate-400">
+                  Jumlah pemberitaan dan rata-rata skor per hari
+                </span>
+              </div>
+              <div className="h-[280px] w-full px-6 pb-6">
+                <ResponsiveContainer width="100%" height={260}>
+                  <LineChart
+                    data={trend}
+                    margin={{ top: 10, right: 0, left: -10, bottom: 0 }}
+                  >
+                    <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                    <XAxis dataKey="date" tickFormatter={formatDate} />
+                    <YAxis yAxisId="volume" allowDecimals={false} />
+                    <YAxis
+                      yAxisId="sentiment"
+                      orientation="right"
+                      domain={[-1, 1]}
+                    />
+                    <Tooltip
+                      labelFormatter={(label) =>
+                        `Tanggal: ${formatDate(label)}`
+                      }
+                    />
+                    <Line
+                      yAxisId="volume"
+                      type="monotone"
+                      dataKey="volume"
+                      name="Volume"
+                      stroke="#0ea5e9"
+                      strokeWidth={2}
+                      dot={false}
+                    />
+                    <Line
+                      yAxisId="sentiment"
+                      type="monotone"
+                      dataKey="sentiment"
+                      name="Skor sentimen"
+                      stroke="#a855f7"
+                      strokeWidth={2}
+                      dot={false}
+                    />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </Card>
+
+            <Card className="rounded-2xl border bg-white shadow-sm">
+              <div className="flex items-center justify-between gap-3 p-6 pb-2">
+                <h3>Komposisi Tone</h3>
+              </div>
+              <div className="h-[220px] w-full px-6">
+                <ResponsiveContainer width="100%" height={220}>
+                  <PieChart>
+                    <Tooltip />
+                    <Pie
+                      data={toneMix}
+                      dataKey="value"
+                      nameKey="name"
+                      innerRadius={55}
+                      outerRadius={85}
+                      paddingAngle={4}
+                    >
+                      {toneMix.map((entry) => (
+                        <Cell
+                          key={entry.name}
+                          fill={sentimentColors[entry.name]}
+                        />
+                      ))}
+                    </Pie>
+                  </PieChart>
+                </ResponsiveContainer>
+              </div>
+              <div className="flex flex-col gap-2 px-6 pb-6 text-xs text-slate-600">
+                {toneMix.map((item) => (
+                  <div
+                    key={item.name}
+                    className="grid grid-cols-[12px_1fr_auto] items-center gap-2"
+                  >
+                    <span
+                      className="h-2.5 w-2.5 rounded-full"
+                      style={{ backgroundColor: sentimentColors[item.name] }}
+                    />
+                    <span>{item.name}</span>
+                    <span className="font-semibold text-slate-900">
+                      {item.value}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </Card>
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <RankedList
+              title="Topik Teratas"
+              items={topTopics}
+              getHref={topicDetailPath}
+            />
+            <RankedList
+              title="Spokesperson yang Dikutip"
+              items={topSpokespersons}
+              getHref={spokespersonProfilePath}
+            />
+          </div>
+
+          <LatestArticles articles={latestArticles} />
+        </>
+      )}
+    </section>
+  );
+};
+
+export default MediaProfilePage;
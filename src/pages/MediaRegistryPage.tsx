@@ -0,0 +1,450 @@
+import { useMemo, useRef, useState } from "react";
+import { useOutletContext } from "react-router-dom";
+import { Download, Plus, Trash2, Upload } from "lucide-react";
+import DuplicateReview from "../components/DuplicateReview";
+import { Badge } from "../components/ui/badge";
+import { Button } from "../components/ui/button";
+import { Card } from "../components/ui/card";
+import { Input } from "../components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "../components/ui/table";
+import { distributionBy } from "../lib/coverageSelectors";
+import { downloadFile } from "../lib/exportFile";
+import {
+  MEDIA_DUPLICATES_STORAGE_KEY,
+  buildMediaLookup,
+  createMediaEntry,
+  mediaSimilarityKey,
+  normalizeMediaKey,
+  parseMediaRegistryImport,
+} from "../lib/mediaRegistry";
+import { findSimilarPairs, useDismissedPairs } from "../lib/similarity";
+import type { MediaType } from "../types/coverage";
+import type { DashboardContext } from "../types/dashboard";
+import {
+  MEDIA_SCOPES,
+  MEDIA_TIERS,
+  type MediaRegistryEntry,
+  type MediaScope,
+  type MediaTier,
+} from "../types/mediaRegistry";
+
+const NONE = "none";
+
+const DUPLICATE_THRESHOLD = 0.8;
+const DUPLICATE_LIMIT = 20;
+
+const splitAliases = (value: string) =>
+  Array.from(
+    new Set(
+      value
+        .split(",")
+        .map((alias) => alias.trim())
+        .filter(Boolean),
+    ),
+  );
+
+const MediaRegistryPage = () => {
+  const { coverage, mediaRegistry } = useOutletContext<DashboardContext>();
+  const { articles, loading } = coverage;
+  const { entries, saveEntry, deleteEntry, importEntries } = mediaRegistry;
+  const [name, setName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { dismissPair, isDismissed } = useDismissedPairs(
+    MEDIA_DUPLICATES_STORAGE_KEY,
+  );
+
+  const articleCounts = useMemo(
+    () =>
+      Object.fromEntries(
+        distributionBy(articles, (row) => row.media).map((item) => [
+          item.name,
+          item.value,
+        ]),
+      ),
+    [articles],
+  );
+
+  const unregistered = useMemo(() => {
+    const lookup = buildMediaLookup(entries);
+    return distributionBy(
+      articles.filter((row) => !lookup.has(normalizeMediaKey(row.media))),
+      (row) => row.media,
+    );
+  }, [articles, entries]);
+
+  const duplicatePairs = useMemo(
+    () =>
+      findSimilarPairs(
+        Object.keys(articleCounts),
+        mediaSimilarityKey,
+        DUPLICATE_THRESHOLD,
+      ),
+    [articleCounts],
+  );
+  const pendingDuplicates = duplicatePairs
+    .filter((pair) => !isDismissed(pair.a, pair.b))
+    .slice(0, DUPLICATE_LIMIT);
+
+  const sortedEntries = useMemo(
+    () =>
+      [...entries].sort((a, b) =>
+        a.name.localeCompare(b.name, "id-ID", { sensitivity: "base" }),
+      ),
+    [entries],
+  );
+
+  const update = (
+    entry: MediaRegistryEntry,
+    patch: Partial<MediaRegistryEntry>,
+  ) => saveEntry({ ...entry, ...patch });
+
+  const entryFromArticles = (mediaName: string) => {
+    const key = normalizeMediaKey(mediaName);
+    const sample = articles.find((row) => normalizeMediaKey(row.media) === key);
+    return createMediaEntry(mediaName, {
+      mediaType: sample?.mediaType ?? "",
+      tier: sample?.mediaTier ?? "",
+      scope:
+        MEDIA_SCOPES.find(
+          (scope) =>
+            scope.toLowerCase() === sample?.mediaScope.trim().toLowerCase(),
+        ) ?? "",
+    });
+  };
+
+  const mergeMedia = (source: string, target: string) => {
+    const lookup = buildMediaLookup(entries);
+    const sourceEntry = lookup.get(normalizeMediaKey(source));
+    const targetEntry =
+      lookup.get(normalizeMediaKey(target)) ?? entryFromArticles(target);
+    saveEntry({
+      ...targetEntry,
+      aliases: Array.from(
+        new Set([
+          ...targetEntry.aliases,
+          source,
+          ...(sourceEntry?.aliases ?? []),
+        ]),
+      ),
+    });
+    if (sourceEntry && sourceEntry.id !== targetEntry.id) {
+      deleteEntry(sourceEntry.id);
+    }
+  };
+
+  const handleAdd = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    if (
+      entries.some(
+        (entry) => normalizeMediaKey(entry.name) === normalizeMediaKey(trimmed),
+      )
+    ) {
+      setError(`${trimmed} sudah terdaftar.`);
+      return;
+    }
+    saveEntry(entryFromArticles(trimmed));
+    setName("");
+    setError(null);
+  };
+
+  const handleExport = () =>
+    downloadFile(
+      JSON.stringify({ entries }, null, 2),
+      "medmon-media-registry.json",
+      "application/json",
+    );
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    try {
+      importEntries(parseMediaRegistryImport(await file.text()));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Import gagal.");
+    }
+  };
+
+  return (
+    <section className="space-y-4">
+      <Card className="rounded-2xl border bg-white shadow-sm">
+        <div className="flex flex-wrap items-start justify-between gap-4 p-6 pb-2">
+          <div className="space-y-1">
+            <h3>Registri Media</h3>
+            <span className="text-xs text-slate-400">
+              {entries.length} media terdaftar · disimpan di browser ini
+            </span>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <form className="flex gap-2" onSubmit={handleAdd}>
+              <Input
+                className="h-9 w-56"
+                value={name}
+                onChange={(event) => setName(event.target.value)}
+                placeholder="Nama media"
+                aria-label="Nama media"
+              />
+              <Button size="sm" type="submit" disabled={!name.trim()}>
+                <Plus className="h-3.5 w-3.5" />
+                Tambah
+              </Button>
+            </form>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => fileInputRef.current?.click()}
+            >
+              <Upload className="h-3.5 w-3.5" />
+              Import
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleExport}
+              disabled={entries.length === 0}
+            >
+              <Download className="h-3.5 w-3.5" />
+              Export
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={handleImport}
+            />
+          </div>
+        </div>
+        {error ? (
+          <p className="px-6 text-xs text-rose-500" role="alert">
+            {error}
+          </p>
+        ) : null}
+        <div className="table-wrapper px-6 pb-6">
+          {entries.length === 0 ? (
+            <p className="py-6 text-sm text-slate-500">
+              Belum ada media terdaftar. Tambahkan manual atau dari daftar media
+              di bawah.
+            </p>
+          ) : (
+            <Table className="text-sm">
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="text-sm">Media</TableHead>
+                  <TableHead className="text-sm">Alias</TableHead>
+                  <TableHead className="text-sm">Tier</TableHead>
+                  <TableHead className="text-sm">Jangkauan</TableHead>
+                  <TableHead className="text-sm">Jenis</TableHead>
+                  <TableHead className="text-sm">Cakupan</TableHead>
+                  <TableHead className="text-sm">Provinsi</TableHead>
+                  <TableHead className="text-sm">Pemberitaan</TableHead>
+                  <TableHead className="text-sm" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sortedEntries.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell>
+                      <Input
+                        key={entry.name}
+                        className="h-8 min-w-[140px] text-xs"
+                        defaultValue={entry.name}
+                        aria-label="Nama media"
+                        onBlur={(event) => {
+                          const value = event.target.value.trim();
+                          if (value && value !== entry.name) {
+                            update(entry, { name: value });
+                          }
+                        }}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        key={entry.aliases.join(",")}
+                        className="h-8 min-w-[160px] text-xs"
+                        defaultValue={entry.aliases.join(", ")}
+                        placeholder="Pisahkan dengan koma"
+                        aria-label="Alias media"
+                        onBlur={(event) =>
+                          update(entry, {
+                            aliases: splitAliases(event.target.value),
+                          })
+                        }
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={entry.tier || NONE}
+                        onValueChange={(value) =>
+                          update(entry, {
+                            tier: value === NONE ? "" : (value as MediaTier),
+                          })
+                        }
+                      >
+                        <SelectTrigger className="h-8 w-[100px] text-xs">
+                          <SelectValue placeholder="Tier" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NONE}>-</SelectItem>
+                          {MEDIA_TIERS.map((tier) => (
+                            <SelectItem key={tier} value={tier}>
+                              {tier}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min={0}
+                        className="h-8 w-28 text-right text-xs"
+                        defaultValue={entry.reach || ""}
+                        placeholder="0"
+                        aria-label="Estimasi jangkauan"
+                        onBlur={(event) => {
+                          const reach = Number(event.target.value);
+                          update(entry, {
+                            reach:
+                              Number.isFinite(reach) && reach > 0 ? reach : 0,
+                          });
+                        }}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={entry.mediaType || NONE}
+                        onValueChange={(value) =>
+                          update(entry, {
+                            mediaType:
+                              value === NONE ? "" : (value as MediaType),
+                          })
+                        }
+                      >
+                        <SelectTrigger className="h-8 w-[100px] text-xs">
+                          <SelectValue placeholder="Jenis" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NONE}>-</SelectItem>
+                          <SelectItem value="Online">Online</SelectItem>
+                          <SelectItem value="Cetak">Cetak</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={entry.scope || NONE}
+                        onValueChange={(value) =>
+                          update(entry, {
+                            scope: value === NONE ? "" : (value as MediaScope),
+                          })
+                        }
+                      >
+                        <SelectTrigger className="h-8 w-[110px] text-xs">
+                          <SelectValue placeholder="Cakupan" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NONE}>-</SelectItem>
+                          {MEDIA_SCOPES.map((scope) => (
+                            <SelectItem key={scope} value={scope}>
+                              {scope}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        className="h-8 min-w-[120px] text-xs"
+                        defaultValue={entry.province}
+                        aria-label="Provinsi"
+                        onBlur={(event) =>
+                          update(entry, { province: event.target.value.trim() })
+                        }
+                      />
+                    </TableCell>
+                    <TableCell className="text-right text-xs text-slate-500">
+                      {articleCounts[entry.name] ?? 0}
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => deleteEntry(entry.id)}
+                        aria-label={`Hapus ${entry.name}`}
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </Card>
+
+      <DuplicateReview
+        title="Kemungkinan Duplikat"
+        description="Nama media yang mirip. Gabungkan agar dihitung sebagai satu media."
+        pairs={pendingDuplicates}
+        counts={articleCounts}
+        onMerge={mergeMedia}
+        onDismiss={dismissPair}
+      />
+
+      <Card className="rounded-2xl border bg-white shadow-sm">
+        <div className="flex items-center justify-between gap-3 p-6 pb-2">
+          <h3>Media Belum Terdaftar</h3>
+          <span className="text-xs text-slate-400">
+            {loading ? "Memuat…" : `${unregistered.length} media dari data`}
+          </span>
+        </div>
+        <div className="flex flex-wrap gap-2 px-6 pb-6 pt-2">
+          {unregistered.length === 0 ? (
+            <p className="text-sm text-slate-500">
+              Semua media pada data sudah terdaftar.
+            </p>
+          ) : (
+            unregistered.map((item) => (
+              <button
+                key={item.name}
+                type="button"
+                className="inline-flex items-center gap-1 rounded-full border px-3 py-1 text-xs hover:bg-slate-50"
+                onClick={() => saveEntry(entryFromArticles(item.name))}
+                title={`Daftarkan ${item.name}`}
+              >
+                <Plus className="h-3 w-3" />
+                {item.name}
+                <Badge variant="outline" className="ml-1">
+                  {item.value}
+                </Badge>
+              </button>
+            ))
+          )}
+        </div>
+      </Card>
+    </section>
+  );
+};
+
+export default MediaRegistryPage;
@@ -1,11 +1,14 @@
-import { useEffect, useMemo, useState } from "react";
+import { useMemo, useState } from "react";
+import { useOutletContext } from "react-router-dom";
 import {
+  Brush,
   CartesianGrid,
   Cell,
   Line,
   LineChart,
   Pie,
   PieChart,
+  ReferenceLine,
   ResponsiveContainer,
   Tooltip,
   XAxis,
@@ -14,7 +17,13 @@ import {
 import { Badge } from "../components/ui/badge";
 import { Button } from "../components/ui/button";
 import { Card, CardContent } from "../components/ui/card";
-import { Input } from "../components/ui/input";
+import AnomaliesPanel from "../components/AnomaliesPanel";
+import ArticleDrawer from "../components/ArticleDrawer";
+import ComparisonDelta from "../components/ComparisonDelta";
+import HighlightText from "../components/HighlightText";
+import ProfileLink from "../components/ProfileLink";
+import QueryInput from "../components/QueryInput";
+import SentimentIndexSection from "../components/SentimentIndexSection";
 import {
   Select,
   SelectContent,
@@ -22,33 +31,37 @@ import {
   SelectTrigger,
   SelectValue,
 } from "../components/ui/select";
+import { ANOMALY_METRIC_LABELS, detectAnomalies } from "../lib/anomalies";
+import { sentimentColors } from "../lib/coverage";
 import {
-  fetchPublishedSheetRows,
-  SHEET_REFRESH_MS,
-  type SheetApiRow,
-} from "../lib/publishedSheet";
-
-type SheetRow = {
-  publishedDate: string;
-  media: string;
-  title: string;
-  summary: string;
-  spokesperson: string;
-  mainframe: string;
-  topic: string;
-  sentiment: string;
-  url: string;
-  company: string;
-};
-
-const SENTIMENT_LABELS = ["Positif", "Netral", "Negatif"] as const;
-type SentimentLabel = (typeof SENTIMENT_LABELS)[number];
-
-const sentimentColors: Record<SentimentLabel, string> = {
-  Positif: "#22c55e",
-  Netral: "#94a3b8",
-  Negatif: "#ef4444",
-};
+  countSentiments,
+  distributionBy,
+  movingAverage,
+} from "../lib/coverageSelectors";
+import {
+  TREND_GRANULARITIES,
+  addDays,
+  daysBetween,
+  formatPeriod,
+  periodRange,
+  periodStart,
+} from "../lib/dateRange";
+import {
+  resolveComparisonDates,
+  resolveFilterDates,
+  toggleFacetValue,
+} from "../lib/filters";
+import { inspectQuery } from "../lib/query";
+import { mediaProfilePath } from "../lib/profileLinks";
+import { usePagination } from "../lib/usePagination";
+import {
+  SENTIMENT_LABELS,
+  type CoverageArticle,
+  type SentimentLabel,
+} from "../types/coverage";
+import type { Anomaly, AnomalySensitivity } from "../types/anomalies";
+import type { DashboardContext, DrillDown } from "../types/dashboard";
+import type { TrendGranularity } from "../types/filters";
 
 const donutPalette = [
   "#0ea5e9",
@@ -61,26 +74,6 @@ const donutPalette = [
   "#6366f1",
 ];
 
-const normalizeDate = (value: string) => {
-  const trimmed = value.trim();
-  if (!trimmed) return "";
-
-  const match = trimmed.match(/(\d{1,2})[\/\-](\d{1,2})[\/\-](\d{2,4})/);
-  if (match) {
-    const day = match[1].padStart(2, "0");
-    const month = match[2].padStart(2, "0");
-    const year = match[3].length === 2 ? `20${match[3]}` : match[3];
-    return `${year}-${month}-${day}`;
-  }
-
-  const parsed = new Date(trimmed);
-  if (Number.isNaN(parsed.getTime())) return trimmed;
-
-  return parsed.toISOString().slice(0, 10);
-};
-
-const DEFAULT_START_DATE = "2025-01-01";
-
 const formatDate = (value: string) => {
   if (!value) return "-";
   const parsed = new Date(value);
@@ -92,13 +85,6 @@ const formatDate = (value: string) => {
   });
 };
 
-const mapSentiment = (value: string): SentimentLabel => {
-  const lower = value.toLowerCase();
-  if (lower.includes("positif") || lower.includes("positive")) return "Positif";
-  if (lower.includes("negatif") || lower.includes("negative")) return "Negatif";
-  return "Netral";
-};
-
 const clampText = (value: string, maxLength: number) => {
   const trimmed = value.trim();
   if (!trimmed) return "";
@@ -106,136 +92,77 @@ const clampText = (value: string, maxLength: number) => {
   return `${trimmed.slice(0, maxLength - 1)}…`;
 };
 
+const shareOf = (count: number, total: number) =>
+  total ? Math.round((count / total) * 100) : 0;
+
+type TrendPoint = { date: string } & Record<SentimentLabel, number> &
+  Partial<Record<`pembanding${SentimentLabel}`, number>> & {
+    rataRata7?: number | null;
+    rataRata28?: number | null;
+  };
+
+const MOVING_AVERAGES = [
+  { window: 7, key: "rataRata7", label: "Rata-rata 7 hari", color: "#64748b" },
+  {
+    window: 28,
+    key: "rataRata28",
+    label: "Rata-rata 28 hari",
+    color: "#0f172a",
+  },
+] as const;
+
+const granularityLabels: Record<TrendGranularity, string> = {
+  day: "per hari",
+  week: "per minggu (ISO)",
+  month: "per bulan",
+  quarter: "per kuartal",
+};
+
 const OverviewPage = () => {
-  const [rows, setRows] = useState<SheetRow[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  const [dateFrom, setDateFrom] = useState("");
-  const [dateTo, setDateTo] = useState("");
-  const [companyFilter, setCompanyFilter] = useState("All");
-  const [sentimentFilter, setSentimentFilter] = useState("All");
-  const [page, setPage] = useState(1);
+  const {
+    coverage,
+    filters,
+    updateFilters,
+    filteredArticles: filteredRows,
+    comparisonArticles: comparisonRows,
+  } = useOutletContext<DashboardContext>();
+  const { loading, error } = coverage;
+
   const [sortBy, setSortBy] = useState(
     "TANGGAL" as "TANGGAL" | "MEDIA" | "HEADLINE" | "TONE" | "LINK",
   );
   const [sortDirection, setSortDirection] = useState<"asc" | "desc">("desc");
-
-  const fetchSheet = async (showLoading = true) => {
-    try {
-      if (showLoading) {
-        setLoading(true);
-      }
-      setError(null);
-      const rows = await fetchPublishedSheetRows();
-      const mapped = rows.map((row: SheetApiRow) => {
-        const normalizedRow: Record<string, string> = {};
-        Object.entries(row).forEach(([key, value]) => {
-          if (!key) return;
-          normalizedRow[key.trim().toUpperCase()] = String(value ?? "");
-        });
-
-        const getValue = (column: string) => normalizedRow[column] ?? "";
-
-        const rawDate = String(getValue("TANGGAL"));
-        const normalizedDate = normalizeDate(rawDate);
-
-        return {
-          publishedDate: normalizedDate,
-          media: String(getValue("MEDIA") || "N/A"),
-          title: String(getValue("HEADLINE") || "Untitled"),
-          summary: String(getValue("SUMMARY") || ""),
-          spokesperson: String(getValue("SPOKESPERSON") || ""),
-          mainframe: String(getValue("MAINFRAME") || "Lainnya"),
-          topic: String(getValue("TOPIK") || "Lainnya"),
-          sentiment: mapSentiment(String(getValue("TONE") || "")),
-          url: String(getValue("LINK") || ""),
-          company: String(getValue("JENIS") || "Umum"),
-        };
-      });
-
-      setRows(mapped);
-
-      const today = new Date();
-      const todayString = today.toISOString().slice(0, 10);
-      setDateFrom((current) => current || DEFAULT_START_DATE);
-      setDateTo((current) => current || todayString);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : "Terjadi kesalahan.");
-    } finally {
-      if (showLoading) {
-        setLoading(false);
-      }
-    }
-  };
-
-  useEffect(() => {
-    fetchSheet();
-    const intervalId = window.setInterval(() => {
-      fetchSheet(false);
-    }, SHEET_REFRESH_MS);
-    return () => window.clearInterval(intervalId);
-  }, []);
-
-  const companies = useMemo(() => {
-    if (rows.length === 0) return ["All", "Client A", "Client B"];
-    const uniqueCompanies = Array.from(new Set(rows.map((row) => row.company)));
-    return ["All", ...uniqueCompanies];
-  }, [rows]);
-
-  const [minDate] = useMemo(() => {
-    const dates = rows
-      .map((item) => item.publishedDate)
-      .filter(Boolean)
-      .sort();
-    return [DEFAULT_START_DATE, dates[dates.length - 1] ?? ""];
-  }, [rows]);
-
-  const todayString = useMemo(() => {
-    return new Date().toISOString().slice(0, 10);
-  }, []);
-
-  const filteredRows = useMemo(() => {
-    return rows.filter((row) => {
-      const withinDate =
-        (!dateFrom || row.publishedDate >= dateFrom) &&
-        (!dateTo || row.publishedDate <= dateTo);
-      const matchesCompany =
-        companyFilter === "All" || row.company === companyFilter;
-      const matchesSentiment =
-        sentimentFilter === "All" || row.sentiment === sentimentFilter;
-      return withinDate && matchesCompany && matchesSentiment;
-    });
-  }, [rows, dateFrom, dateTo, companyFilter, sentimentFilter]);
-
-  useEffect(() => {
-    setPage(1);
-  }, [dateFrom, dateTo, companyFilter, sentimentFilter]);
-
-  useEffect(() => {
-    setSortDirection(sortBy === "TANGGAL" ? "desc" : "asc");
-  }, [sortBy]);
-
-  const sentimentCounts = useMemo(() => {
-    return filteredRows.reduce(
-      (acc, row) => {
-        acc[row.sentiment as SentimentLabel] += 1;
-        return acc;
-      },
-      { Positif: 0, Netral: 0, Negatif: 0 } as Record<SentimentLabel, number>,
-    );
-  }, [filteredRows]);
+  const [drillDown, setDrillDown] = useState<DrillDown | null>(null);
+  const [movingAverages, setMovingAverages] = useState<number[]>([]);
+  const [sensitivity, setSensitivity] = useState<AnomalySensitivity>("medium");
+  const { granularity } = filters;
+
+  const openDrillDown = (
+    title: string,
+    predicate: (row: CoverageArticle) => boolean,
+  ) => setDrillDown({ title, articles: filteredRows.filter(predicate) });
+
+  const sentimentCounts = useMemo(
+    () => countSentiments(filteredRows),
+    [filteredRows],
+  );
 
   const totalMentions = filteredRows.length;
-  const positifShare = totalMentions
-    ? Math.round((sentimentCounts.Positif / totalMentions) * 100)
-    : 0;
-  const netralShare = totalMentions
-    ? Math.round((sentimentCounts.Netral / totalMentions) * 100)
-    : 0;
-  const negatifShare = totalMentions
-    ? Math.round((sentimentCounts.Negatif / totalMentions) * 100)
-    : 0;
+  const positifShare = shareOf(sentimentCounts.Positif, totalMentions);
+  const netralShare = shareOf(sentimentCounts.Netral, totalMentions);
+  const negatifShare = shareOf(sentimentCounts.Negatif, totalMentions);
+
+  const comparison = useMemo(() => {
+    if (!comparisonRows) return null;
+    const counts = countSentiments(comparisonRows);
+    const total = comparisonRows.length;
+    return {
+      total,
+      positifShare: shareOf(counts.Positif, total),
+      netralShare: shareOf(counts.Netral, total),
+      negatifShare: shareOf(counts.Negatif, total),
+    };
+  }, [comparisonRows]);
 
   const sentimentDistribution = useMemo(
     () =>
@@ -246,53 +173,121 @@ const OverviewPage = () => {
     [sentimentCounts],
   );
 
-  const dailyTrend = useMemo(() => {
-    const grouped = new Map<
-      string,
-      { date: string; Positif: number; Netral: number; Negatif: number }
-    >();
-
-    filteredRows.forEach((row) => {
-      const key = row.publishedDate || "Unknown";
-      const entry = grouped.get(key) || {
+  const trend = useMemo(() => {
+    const comparisonRange = comparisonRows && resolveComparisonDates(filters);
+    const grouped = new Map<string, TrendPoint>();
+    const entryFor = (date: string) => {
+      const key = date ? periodStart(date, granularity) : "Unknown";
+      const entry: TrendPoint = grouped.get(key) || {
         date: key,
         Positif: 0,
         Netral: 0,
         Negatif: 0,
+        ...(comparisonRange
+          ? { pembandingPositif: 0, pembandingNetral: 0, pembandingNegatif: 0 }
+          : {}),
       };
-      entry[row.sentiment as SentimentLabel] += 1;
       grouped.set(key, entry);
+      return entry;
+    };
+
+    filteredRows.forEach((row) => {
+      entryFor(row.publishedDate)[row.sentiment] += 1;
     });
 
-    return Array.from(grouped.values()).sort((a, b) =>
+    if (comparisonRows && comparisonRange) {
+      const currentStart =
+        resolveFilterDates(filters).dateFrom ||
+        filteredRows
+          .map((row) => row.publishedDate)
+          .filter(Boolean)
+          .sort()[0] ||
+        comparisonRange.dateFrom;
+      const offset = daysBetween(comparisonRange.dateFrom, currentStart);
+
+      comparisonRows.forEach((row) => {
+        if (!row.publishedDate) return;
+        const entry = entryFor(addDays(row.publishedDate, offset));
+        const key = `pembanding${row.sentiment}` as const;
+        entry[key] = (entry[key] ?? 0) + 1;
+      });
+    }
+
+    if (granularity === "day") {
+      const dates = Array.from(grouped.keys())
+        .filter((date) => date !== "Unknown")
+        .sort();
+      for (
+        let date = dates[0];
+        date && date < dates[dates.length - 1];
+        date = addDays(date, 1)
+      ) {
+        entryFor(date);
+      }
+    }
+
+    const points = Array.from(grouped.values()).sort((a, b) =>
       a.date.localeCompare(b.date),
     );
-  }, [filteredRows]);
-
-  const mainframeDistribution = useMemo(() => {
-    const counts = filteredRows.reduce<Record<string, number>>((acc, row) => {
-      acc[row.mainframe] = (acc[row.mainframe] || 0) + 1;
-      return acc;
-    }, {});
-
-    return Object.entries(counts)
-      .map(([name, value]) => ({ name, value }))
-      .sort((a, b) => b.value - a.value);
-  }, [filteredRows]);
-
-  const topicDistribution = useMemo(() => {
-    const counts = filteredRows.reduce<Record<string, number>>((acc, row) => {
-      acc[row.topic] = (acc[row.topic] || 0) + 1;
-      return acc;
-    }, {});
-
-    return Object.entries(counts)
-      .map(([name, value]) => ({ name, value }))
-      .sort((a, b) => b.value - a.value);
-  }, [filteredRows]);
+    if (granularity !== "day") return points;
+
+    const volumeOf = (point: TrendPoint) =>
+      SENTIMENT_LABELS.reduce((sum, label) => sum + point[label], 0);
+    const averages = MOVING_AVERAGES.map(({ window }) =>
+      movingAverage(points, volumeOf, window),
+    );
+    return points.map((point, index) => ({
+      ...point,
+      rataRata7: averages[0][index],
+      rataRata28: averages[1][index],
+    }));
+  }, [filteredRows, comparisonRows, filters, granularity]);
+
+  const anomalies = useMemo(
+    () =>
+      detectAnomalies(filteredRows, sensitivity).sort((a, b) =>
+        b.date.localeCompare(a.date),
+      ),
+    [filteredRows, sensitivity],
+  );
+
+  const anomalyMarkers = useMemo(
+    () =>
+      Array.from(
+        new Map(
+          anomalies.map((anomaly) => {
+            const date = periodStart(anomaly.date, granularity);
+            return [`${date}-${anomaly.metric}`, { ...anomaly, date }];
+          }),
+        ).values(),
+      ),
+    [anomalies, granularity],
+  );
+
+  const anomalyArticles = (anomaly: Anomaly) =>
+    filteredRows.filter(
+      (row) =>
+        row.publishedDate === anomaly.date &&
+        (anomaly.metric === "volume" || row.sentiment === "Negatif"),
+    );
+
+  const mainframeDistribution = useMemo(
+    () => distributionBy(filteredRows, (row) => row.mainframe),
+    [filteredRows],
+  );
+
+  const topicDistribution = useMemo(
+    () => distributionBy(filteredRows, (row) => row.topic),
+    [filteredRows],
+  );
+
+  const { terms, error: queryError } = useMemo(
+    () => inspectQuery(filters.query),
+    [filters.query],
+  );
 
   const sortedRows = useMemo(() => {
-    const valueFor = (row: SheetRow) => {
+    const valueFor = (row: CoverageArticle) => {
       switch (sortBy) {
         case "MEDIA":
           return row.media;
@@ -319,19 +314,17 @@ const OverviewPage = () => {
   }, [filteredRows, sortBy, sortDirection]);
 
   const pageSize = 8;
-  const totalPages = Math.max(1, Math.ceil(sortedRows.length / pageSize));
-  const pagedRows = sortedRows.slice((page - 1) * pageSize, page * pageSize);
-
-  const handleReset = () => {
-    setDateFrom(DEFAULT_START_DATE);
-    setDateTo(todayString);
-    setCompanyFilter("All");
-    setSentimentFilter("All");
-  };
+  const {
+    page,
+    totalPages,
+    pageItems: pagedRows,
+    setPage,
+  } = usePagination(sortedRows, pageSize);
 
   const renderLegend = (
     items: { name: string; value: number }[],
     getColor: (index: number, name: string) => string,
+    onSelect: (name: string) => void,
   ) => (
     <div className="flex flex-col gap-2 text-xs text-slate-600">
       {items.map((item, index) => (
@@ -344,7 +337,13 @@ const OverviewPage = () => {
             style={{ backgroundColor: getColor(index, item.name) }}
           />
           <span className="truncate">{item.name}</span>
-          <span className="font-semibold text-slate-900">{item.value}</span>
+          <button
+            type="button"
+            className="font-semibold text-slate-900 hover:underline"
+            onClick={() => onSelect(item.name)}
+          >
+            {item.value}
+          </button>
         </div>
       ))}
     </div>
@@ -353,15 +352,6 @@ const OverviewPage = () => {
   if (loading) {
     return (
       <div className="space-y-6">
-        <section className="flex flex-wrap gap-4 rounded-2xl border bg-white p-4 shadow-sm">
-          {Array.from({ length: 4 }).map((_, index) => (
-            <div
-              key={index}
-              className="h-10 flex-1 rounded-xl bg-slate-100 animate-pulse"
-            />
-          ))}
-          <div className="h-10 w-36 rounded-xl bg-slate-100 animate-pulse" />
-        </section>
         <section className="grid gap-4 md:grid-cols-2 xl:grid-cols-4">
           {Array.from({ length: 4 }).map((_, index) => (
             <div
@@ -388,108 +378,124 @@ const OverviewPage = () => {
       <div className="rounded-2xl border bg-white p-8 text-center shadow-sm">
         <h3 className="text-xl font-semibold">Data gagal dimuat</h3>
         <p className="mt-2 text-sm text-slate-500">{error}</p>
-        <Button onClick={() => window.location.reload()}>Coba lagi</Button>
+        <Button onClick={() => coverage.refresh()}>Coba lagi</Button>
       </div>
     );
   }
 
   return (
     <>
-      <section className="flex flex-wrap items-end gap-2 rounded-2xl border bg-white p-4 shadow-sm">
-        <div className="flex min-w-[150px] flex-col gap-2">
-          <label className="text-xs text-slate-500" htmlFor="dateFrom">
-            Dari tanggal
-          </label>
-          <Input
-            id="dateFrom"
-            type="date"
-            value={dateFrom}
-            min={minDate || undefined}
-            max={dateTo || todayString}
-            onChange={(event) => setDateFrom(event.target.value)}
-          />
-        </div>
-        <div className="flex min-w-[150px] flex-col gap-2">
-          <label className="text-xs text-slate-500" htmlFor="dateTo">
-            Sampai
-          </label>
-          <Input
-            id="dateTo"
-            type="date"
-            value={dateTo}
-            min={dateFrom || undefined}
-            max={todayString}
-            onChange={(event) => setDateTo(event.target.value)}
-          />
-        </div>
-        <div className="flex min-w-[170px] flex-col gap-2">
-          <label className="text-xs text-slate-500" htmlFor="company">
-            Media
-          </label>
-          <Select value={companyFilter} onValueChange={setCompanyFilter}>
-            <SelectTrigger id="company">
-              <SelectValue placeholder="Company" />
-            </SelectTrigger>
-            <SelectContent>
-              {companies.map((company) => (
-                <SelectItem key={company} value={company}>
-                  {company}
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
-        </div>
-        <div className="flex min-w-[170px] flex-col gap-2">
-          <label className="text-xs text-slate-500" htmlFor="sentiment">
-            Sentimen
-          </label>
-          <Select value={sentimentFilter} onValueChange={setSentimentFilter}>
-            <SelectTrigger id="sentiment">
-              <SelectValue placeholder="Sentimen" />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="All">Semua</SelectItem>
-              {SENTIMENT_LABELS.map((label) => (
-                <SelectItem key={label} value={label}>
-                  {label}
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
-        </div>
-        <Button variant="outline" onClick={handleReset}>
-          Reset filter
-        </Button>
-        <Button onClick={() => fetchSheet()}>Refresh data</Button>
-      </section>
-
-      <section className="grid gap-4 grid-cols-2 md:grid-cols-2 xl:grid-cols-4 mt-4">
+      <section className="grid gap-4 grid-cols-2 md:grid-cols-2 xl:grid-cols-4">
         <Card className="rounded-2xl border bg-white shadow-sm">
           <CardContent className="p-6">
             <p className="text-sm text-slate-500">Total Pemberitaan</p>
-            <h2 className="text-2xl font-bold">{totalMentions}</h2>
+            <h2 className="text-2xl font-bold">
+              <button
+                type="button"
+                className="hover:underline"
+                onClick={() => openDrillDown("Total Pemberitaan", () => true)}
+              >
+                {totalMentions}
+              </button>
+            </h2>
             <span className="text-xs text-slate-400">Artikel terpantau</span>
+            {comparison ? (
+              <div className="mt-1">
+                <ComparisonDelta
+                  current={totalMentions}
+                  previous={comparison.total}
+                  unit="percent"
+                />
+              </div>
+            ) : null}
           </CardContent>
         </Card>
         <Card className="rounded-2xl border bg-white shadow-sm">
           <CardContent className="p-6">
             <p className="text-sm text-slate-500">% Positif</p>
-            <h2 className="text-2xl font-bold">{positifShare}%</h2>
+            <h2 className="text-2xl font-bold">
+              <button
+                type="button"
+                className="hover:underline"
+                onClick={() =>
+                  openDrillDown(
+                    "Pemberitaan Positif",
+                    (row) => row.sentiment === "Positif",
+                  )
+                }
+              >
+                {positifShare}%
+              </button>
+            </h2>
             <span className="text-xs text-slate-400">Sentimen positif</span>
+            {comparison ? (
+              <div className="mt-1">
+                <ComparisonDelta
+                  current={positifShare}
+                  previous={comparison.positifShare}
+                  unit="points"
+                />
+              </div>
+            ) : null}
           </CardContent>
         </Card>
         <Card className="rounded-2xl border bg-white shadow-sm">
           <CardContent className="p-6">
             <p className="text-sm text-slate-500">% Netral</p>
-            <h2 className="text-2xl font-bold">{netralShare}%</h2>
+            <h2 className="text-2xl font-bold">
+              <button
+                type="button"
+                className="hover:underline"
+                onClick={() =>
+                  openDrillDown(
+                    "Pemberitaan Netral",
+                    (row) => row.sentiment === "Netral",
+                  )
+                }
+              >
+                {netralShare}%
+              </button>
+            </h2>
             <span className="text-xs text-slate-400">Sentimen netral</span>
+            {comparison ? (
+              <div className="mt-1">
+                <ComparisonDelta
+                  current={netralShare}
+                  previous={comparison.netralShare}
+                  unit="points"
+                />
+              </div>
+            ) : null}
           </CardContent>
         </Card>
         <Card className="rounded-2xl border bg-white shadow-sm">
           <CardContent className="p-6">
             <p className="text-sm text-slate-500">% Negatif</p>
-            <h2 className="text-2xl font-bold">{negatifShare}%</h2>
+            <h2 className="text-2xl font-bold">
+              <button
+                type="button"
+                className="hover:underline"
+                onClick={() =>
+                  openDrillDown(
+                    "Pemberitaan Negatif",
+                    (row) => row.sentiment === "Negatif",
+                  )
+                }
+              >
+                {negatifShare}%
+              </button>
+            </h2>
             <span className="text-xs text-slate-400">Sentimen negatif</span>
+            {comparison ? (
+              <div className="mt-1">
+                <ComparisonDelta
+                  current={negatifShare}
+                  previous={comparison.negatifShare}
+                  unit="points"
+                  higherIsBetter={false}
+                />
+              </div>
+            ) : null}
           </CardContent>
         </Card>
       </section>
@@ -497,23 +503,82 @@ const OverviewPage = () => {
       <section className="grid gap-4 lg:grid-cols-2 mt-4">
         <Card className="rounded-2xl border bg-white shadow-sm">
           <div className="flex items-center justify-between gap-3 p-6 pb-2">
-            <h3>Pergerakan Sentimen</h3>
-            <span className="text-xs text-slate-400">
-              Jumlah pemberitaan per hari
-            </span>
+            <div className="space-y-1">
+              <h3>Pergerakan Sentimen</h3>
+              <span className="text-xs text-slate-400">
+                {comparison
+                  ? "Garis putus-putus: periode pembanding"
+                  : `Jumlah pemberitaan ${granularityLabels[granularity]}`}
+              </span>
+            </div>
+            <div className="flex flex-wrap items-center justify-end gap-2">
+              {granularity === "day"
+                ? MOVING_AVERAGES.map(({ window, label }) => (
+                    <Button
+                      key={window}
+                      variant={
+                        movingAverages.includes(window) ? "default" : "outline"
+                      }
+                      size="sm"
+                      onClick={() =>
+                        setMovingAverages((current) =>
+                          current.includes(window)
+                            ? current.filter((item) => item !== window)
+                            : [...current, window],
+                        )
+                      }
+                      title={label}
+                    >
+                      MA {window}
+                    </Button>
+                  ))
+                : null}
+              <Select
+                value={granularity}
+                onValueChange={(value) =>
+                  updateFilters({ granularity: value as TrendGranularity })
+                }
+              >
+                <SelectTrigger className="h-9 w-[130px]">
+                  <SelectValue placeholder="Granularitas" />
+                </SelectTrigger>
+                <SelectContent>
+                  {TREND_GRANULARITIES.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
           </div>
-          <div className="h-[260px] w-full px-6">
-            <ResponsiveContainer width="100%" height={260}>
+          <div className="h-[300px] w-full px-6">
+            <ResponsiveContainer width="100%" height={300}>
               <LineChart
-                data={dailyTrend}
+                data={trend}
                 margin={{ top: 10, right: 16, left: -10, bottom: 0 }}
+                className="cursor-pointer"
+                onClick={(state) => {
+                  const date = String(state.activeLabel ?? "");
+                  if (/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+                    updateFilters({
+                      range: "custom",
+                      ...periodRange(date, granularity),
+                    });
+                  }
+                }}
               >
                 <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
-                <XAxis dataKey="date" tickFormatter={formatDate} />
+                <XAxis
+                  dataKey="date"
+                  tickFormatter={(value) => formatPeriod(value, granularity)}
+                />
                 <YAxis allowDecimals={false} />
                 <Tooltip
                   formatter={(value, name) => [value, name]}
-                  labelFormatter={(label) => `Tanggal: ${formatDate(label)}`}
+                  labelFormatter={(label) =>
+                    `${granularity === "day" ? "Tanggal" : "Periode"}: ${formatPeriod(label, granularity)}`
+                  }
                 />
                 <Line
                   type="monotone"
@@ -522,6 +587,18 @@ const OverviewPage = () => {
                   strokeWidth={2}
                   dot={false}
                 />
+                {comparison ? (
+                  <Line
+                    type="monotone"
+                    dataKey="pembandingPositif"
+                    name="Positif (pembanding)"
+                    stroke={sentimentColors.Positif}
+                    strokeWidth={1.5}
+                    strokeDasharray="4 4"
+                    strokeOpacity={0.45}
+                    dot={false}
+                  />
+                ) : null}
                 <Line
                   type="monotone"
                   dataKey="Netral"
@@ -529,6 +606,18 @@ const OverviewPage = () => {
                   strokeWidth={2}
                   dot={false}
                 />
+                {comparison ? (
+                  <Line
+                    type="monotone"
+                    dataKey="pembandingNetral"
+                    name="Netral (pembanding)"
+                    stroke={sentimentColors.Netral}
+                    strokeWidth={1.5}
+                    strokeDasharray="4 4"
+                    strokeOpacity={0.45}
+                    dot={false}
+                  />
+                ) : null}
                 <Line
                   type="monotone"
                   dataKey="Negatif"
@@ -536,6 +625,63 @@ const OverviewPage = () => {
                   strokeWidth={2}
                   dot={false}
                 />
+                {comparison ? (
+                  <Line
+                    type="monotone"
+                    dataKey="pembandingNegatif"
+                    name="Negatif (pembanding)"
+                    stroke={sentimentColors.Negatif}
+                    strokeWidth={1.5}
+                    strokeDasharray="4 4"
+                    strokeOpacity={0.45}
+                    dot={false}
+                  />
+                ) : null}
+                {granularity === "day"
+                  ? MOVING_AVERAGES.filter(({ window }) =>
+                      movingAverages.includes(window),
+                    ).map(({ window, key, label, color }) => (
+                      <Line
+                        key={window}
+                        type="monotone"
+                        dataKey={key}
+                        name={label}
+                        stroke={color}
+                        strokeWidth={1.5}
+                        dot={false}
+                        connectNulls
+                      />
+                    ))
+                  : null}
+                {anomalyMarkers.map((marker) => (
+                  <ReferenceLine
+                    key={`${marker.date}-${marker.metric}`}
+                    x={marker.date}
+                    stroke={
+                      marker.metric === "negativeShare"
+                        ? sentimentColors.Negatif
+                        : "#f59e0b"
+                    }
+                    strokeDasharray="3 3"
+                    label={{
+                      value: "!",
+                      position: "top",
+                      fill:
+                        marker.metric === "negativeShare"
+                          ? sentimentColors.Negatif
+                          : "#f59e0b",
+                    }}
+                  />
+                ))}
+                {trend.length > 1 ? (
+                  <Brush
+                    dataKey="date"
+                    height={22}
+                    stroke="#94a3b8"
+                    travellerWidth={8}
+                    tickFormatter={(value) => formatPeriod(value, granularity)}
+                  />
+                ) : null}
               </LineChart>
             </ResponsiveContainer>
           </div>
@@ -543,6 +689,11 @@ const OverviewPage = () => {
             {renderLegend(
               sentimentDistribution,
               (_, name) => sentimentColors[name as SentimentLabel],
+              (name) =>
+                openDrillDown(
+                  `Sentimen: ${name}`,
+                  (row) => row.sentiment === name,
+                ),
             )}
           </div>
         </Card>
@@ -563,6 +714,16 @@ const OverviewPage = () => {
                   innerRadius={60}
                   outerRadius={90}
                   paddingAngle={4}
+                  className="cursor-pointer"
+                  onClick={(_, index) =>
+                    updateFilters(
+                      toggleFacetValue(
+                        filters,
+                        "sentiment",
+                        sentimentDistribution[index].name,
+                      ),
+                    )
+                  }
                 >
                   {sentimentDistribution.map((entry) => (
                     <Cell
@@ -578,6 +739,11 @@ const OverviewPage = () => {
             {renderLegend(
               sentimentDistribution,
               (_, name) => sentimentColors[name as SentimentLabel],
+              (name) =>
+                openDrillDown(
+                  `Sentimen: ${name}`,
+                  (row) => row.sentiment === name,
+                ),
             )}
           </div>
         </Card>
@@ -598,6 +764,16 @@ const OverviewPage = () => {
                   innerRadius={60}
                   outerRadius={90}
                   paddingAngle={4}
+                  className="cursor-pointer"
+                  onClick={(_, index) =>
+                    updateFilters(
+                      toggleFacetValue(
+                        filters,
+                        "mainframe",
+                        mainframeDistribution[index].name,
+                      ),
+                    )
+                  }
                 >
                   {mainframeDistribution.map((entry, index) => (
                     <Cell
@@ -613,6 +789,11 @@ const OverviewPage = () => {
             {renderLegend(
               mainframeDistribution,
               (index) => donutPalette[index % donutPalette.length],
+              (name) =>
+                openDrillDown(
+                  `Mainframe: ${name}`,
+                  (row) => row.mainframe === name,
+                ),
             )}
           </div>
         </Card>
@@ -635,6 +816,16 @@ const OverviewPage = () => {
                   paddingAngle={1}
                   minAngle={2}
                   isAnimationActive={false}
+                  className="cursor-pointer"
+                  onClick={(_, index) =>
+                    updateFilters(
+                      toggleFacetValue(
+                        filters,
+                        "topic",
+                        topicDistribution[index].name,
+                      ),
+                    )
+                  }
                 >
                   {topicDistribution.map((entry, index) => (
                     <Cell
@@ -650,17 +841,37 @@ const OverviewPage = () => {
             {renderLegend(
               topicDistribution,
               (index) => donutPalette[(index + 3) % donutPalette.length],
+              (name) =>
+                openDrillDown(`Topik: ${name}`, (row) => row.topic === name),
             )}
           </div>
         </Card>
       </section>
 
+      <AnomaliesPanel
+        anomalies={anomalies}
+        sensitivity={sensitivity}
+        onSensitivityChange={setSensitivity}
+        getArticles={anomalyArticles}
+        onOpen={(anomaly) =>
+          setDrillDown({
+            title: `${ANOMALY_METRIC_LABELS[anomaly.metric]}: ${formatPeriod(anomaly.date, "day")}`,
+            articles: anomalyArticles(anomaly),
+          })
+        }
+      />
+
+      <SentimentIndexSection
+        articles={filteredRows}
+        granularity={granularity}
+      />
+
       <Card className="rounded-2xl border bg-white shadow-sm mt-4">
         <div className="flex flex-wrap items-start justify-between gap-4 p-6 pb-2">
           <div className="space-y-1">
             <h3>Rekap Pemberitaan</h3>
             <span className="text-xs text-slate-400">
-              {totalMentions} pemberitaan
+              {filteredRows.length} pemberitaan
             </span>
           </div>
           <div className=" flex items-center gap-3">
@@ -669,11 +880,12 @@ const OverviewPage = () => {
             </label>
             <Select
               value={sortBy}
-              onValueChange={(value) =>
+              onValueChange={(value) => {
                 setSortBy(
                   value as "TANGGAL" | "MEDIA" | "HEADLINE" | "TONE" | "LINK",
-                )
-              }
+                );
+                setSortDirection(value === "TANGGAL" ? "desc" : "asc");
+              }}
             >
               <SelectTrigger>
                 <SelectValue placeholder="Urutkan menurut" />
@@ -687,6 +899,13 @@ const OverviewPage = () => {
             </Select>
           </div>
         </div>
+        <div className="px-6 pb-4">
+          <QueryInput
+            value={filters.query}
+            error={queryError}
+            onChange={(query, options) => updateFilters({ query }, options)}
+          />
+        </div>
         <div className="flex flex-col gap-4 px-6 pb-6">
           {pagedRows.map((row, index) => (
             <Card
@@ -696,15 +915,23 @@ const OverviewPage = () => {
               <CardContent className="space-y-3 p-4">
                 <div className="flex items-center justify-between text-xs text-slate-500">
                   <span className="font-semibold text-slate-900">
-                    {row.media}
+                    <ProfileLink to={mediaProfilePath(row.media)}>
+                      {row.media}
+                    </ProfileLink>
                   </span>
                   <span>{formatDate(row.publishedDate)}</span>
                 </div>
                 <h4 className="text-base font-semibold text-slate-900">
-                  {row.title}
+                  <HighlightText text={row.title} terms={terms} />
                 </h4>
                 <p className="text-sm text-slate-600">
-                  {clampText(row.summary || "Ringkasan belum tersedia.", 160)}
+                  <HighlightText
+                    text={clampText(
+                      row.summary || "Ringkasan belum tersedia.",
+                      160,
+                    )}
+                    terms={terms}
+                  />
                 </p>
                 <div className="flex items-center justify-between gap-3 text-sm">
                   <Badge
@@ -757,6 +984,8 @@ const OverviewPage = () => {
           </Button>
         </div>
       </Card>
+
+      <ArticleDrawer drillDown={drillDown} onClose={() => setDrillDown(null)} />
     </>
   );
 };
@@ -0,0 +1,342 @@
+import { useMemo } from "react";
+import { useOutletContext } from "react-router-dom";
+import { Download } from "lucide-react";
+import {
+  Bar,
+  CartesianGrid,
+  ComposedChart,
+  Legend,
+  Line,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import FormulaTooltip from "../components/FormulaTooltip";
+import ProfileLink from "../components/ProfileLink";
+import RateCardEditor from "../components/RateCardEditor";
+import { Button } from "../components/ui/button";
+import { Card, CardContent } from "../components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "../components/ui/table";
+import { distributionBy } from "../lib/coverageSelectors";
+import {
+  TREND_GRANULARITIES,
+  formatPeriod,
+  periodStart,
+} from "../lib/dateRange";
+import { downloadCsv, toFileSlug } from "../lib/exportFile";
+import {
+  AVE_FORMULA,
+  PR_VALUE_FORMULA,
+  formatCompactRupiah,
+  formatRupiah,
+  valueBy,
+  valueTotals,
+} from "../lib/prValue";
+import {
+  mediaProfilePath,
+  spokespersonProfilePath,
+  topicDetailPath,
+} from "../lib/profileLinks";
+import type { DashboardContext } from "../types/dashboard";
+import type { TrendGranularity } from "../types/filters";
+import type { ValueBreakdown } from "../types/prValue";
+
+const VALUE_FORMULAS = [AVE_FORMULA, PR_VALUE_FORMULA];
+
+const BREAKDOWN_LIMIT = 10;
+
+const exportBreakdown = (title: string, rows: ValueBreakdown[]) =>
+  downloadCsv(
+    [
+      [title, "Pemberitaan", "AVE (IDR)", "PR Value (IDR)"],
+      ...rows.map((row) => [
+        row.name,
+        row.count,
+        Math.round(row.ave),
+        Math.round(row.prValue),
+      ]),
+    ],
+    `nilai-pr-${toFileSlug(title)}.csv`,
+  );
+
+const BreakdownCard = ({
+  title,
+  rows,
+  getHref,
+}: {
+  title: string;
+  rows: ValueBreakdown[];
+  getHref: (name: string) => string;
+}) => (
+  <Card className="rounded-2xl border bg-white shadow-sm">
+    <div className="flex items-center justify-between gap-3 p-6 pb-2">
+      <h3>Nilai per {title}</h3>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => exportBreakdown(title, rows)}
+        disabled={rows.length === 0}
+      >
+        <Download className="h-3.5 w-3.5" />
+        CSV
+      </Button>
+    </div>
+    <div className="table-wrapper px-6 pb-6">
+      {rows.length === 0 ? (
+        <p className="text-sm text-slate-500">Belum ada data.</p>
+      ) : (
+        <Table className="text-sm">
+          <TableHeader>
+            <TableRow>
+              <TableHead className="text-sm">{title}</TableHead>
+              <TableHead className="text-right text-sm">AVE</TableHead>
+              <TableHead className="text-right text-sm">PR value</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.slice(0, BREAKDOWN_LIMIT).map((row) => (
+              <TableRow key={row.name}>
+                <TableCell className="font-medium text-slate-900">
+                  <ProfileLink to={getHref(row.name)}>{row.name}</ProfileLink>
+                  <span className="ml-1 text-xs text-slate-400">
+                    ({row.count})
+                  </span>
+                </TableCell>
+                <TableCell className="text-right tabular-nums">
+                  {formatCompactRupiah(row.ave)}
+                </TableCell>
+                <TableCell
+                  className={`text-right tabular-nums ${
+                    row.prValue < 0 ? "text-rose-600" : ""
+                  }`}
+                >
+                  {formatCompactRupiah(row.prValue)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  </Card>
+);
+
+const PrValuePage = () => {
+  const { coverage, filters, updateFilters, filteredArticles, rateCard } =
+    useOutletContext<DashboardContext>();
+  const { articles, loading, error } = coverage;
+  const { granularity } = filters;
+
+  const mediaOptions = useMemo(
+    () =>
+      distributionBy(articles, (row) => row.media)
+        .map((item) => item.name)
+        .sort((a, b) => a.localeCompare(b, "id-ID", { sensitivity: "base" })),
+    [articles],
+  );
+
+  const totals = useMemo(
+    () => valueTotals(filteredArticles),
+    [filteredArticles],
+  );
+  const printAve = useMemo(
+    () =>
+      valueTotals(filteredArticles.filter((row) => row.mediaType === "Cetak"))
+        .ave,
+    [filteredArticles],
+  );
+
+  const trend = useMemo(
+    () =>
+      valueBy(filteredArticles, (row) =>
+        row.publishedDate ? periodStart(row.publishedDate, granularity) : "",
+      ).sort((a, b) => a.name.localeCompare(b.name)),
+    [filteredArticles, granularity],
+  );
+
+  const byMedia = useMemo(
+    () => valueBy(filteredArticles, (row) => row.media),
+    [filteredArticles],
+  );
+  const byTopic = useMemo(
+    () => valueBy(filteredArticles, (row) => row.topic),
+    [filteredArticles],
+  );
+  const bySpokesperson = useMemo(
+    () => valueBy(filteredArticles, (row) => row.spokespersons),
+    [filteredArticles],
+  );
+
+  if (loading) {
+    return (
+      <section className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+        {Array.from({ length: 3 }).map((_, index) => (
+          <div
+            key={index}
+            className="h-80 rounded-2xl border bg-white shadow-sm animate-pulse"
+          />
+        ))}
+      </section>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="rounded-2xl border bg-white p-8 text-center shadow-sm">
+        <h3 className="text-xl font-semibold">Data gagal dimuat</h3>
+        <p className="mt-2 text-sm text-slate-500">{error}</p>
+      </div>
+    );
+  }
+
+  return (
+    <section className="space-y-4">
+      <div className="grid grid-cols-2 gap-4 xl:grid-cols-4">
+        <Card className="rounded-2xl border bg-white shadow-sm">
+          <CardContent className="p-6">
+            <p className="text-sm text-slate-500">Total AVE</p>
+            <h2 className="text-2xl font-bold">
+              {formatCompactRupiah(totals.ave)}
+            </h2>
+            <span className="text-xs text-slate-400">
+              {formatRupiah(totals.ave)}
+            </span>
+          </CardContent>
+        </Card>
+        <Card className="rounded-2xl border bg-white shadow-sm">
+          <CardContent className="p-6">
+            <p className="text-sm text-slate-500">Total PR Value</p>
+            <h2 className="text-2xl font-bold">
+              {formatCompactRupiah(totals.prValue)}
+            </h2>
+            <span className="text-xs text-slate-400">
+              {formatRupiah(totals.prValue)}
+            </span>
+          </CardContent>
+        </Card>
+        <Card className="rounded-2xl border bg-white shadow-sm">
+          <CardContent className="p-6">
+            <p className="text-sm text-slate-500">Rata-rata AVE</p>
+            <h2 className="text-2xl font-bold">
+              {formatCompactRupiah(
+                filteredArticles.length
+                  ? totals.ave / filteredArticles.length
+                  : 0,
+              )}
+            </h2>
+            <span className="text-xs text-slate-400">per pemberitaan</span>
+          </CardContent>
+        </Card>
+        <Card className="rounded-2xl border bg-white shadow-sm">
+          <CardContent className="p-6">
+            <p className="text-sm text-slate-500">Porsi AVE cetak</p>
+            <h2 className="text-2xl font-bold">
+              {totals.ave ? Math.round((printAve / totals.ave) * 100) : 0}%
+            </h2>
+            <span className="text-xs text-slate-400">
+              {formatCompactRupiah(printAve)}
+            </span>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="rounded-2xl border bg-white shadow-sm">
+        <div className="flex flex-wrap items-center justify-between gap-3 p-6 pb-2">
+          <div className="flex items-center gap-2">
+            <h3>Tren Nilai PR</h3>
+            <FormulaTooltip formulas={VALUE_FORMULAS} />
+          </div>
+          <Select
+            value={granularity}
+            onValueChange={(value) =>
+              updateFilters({ granularity: value as TrendGranularity })
+            }
+          >
+            <SelectTrigger className="h-9 w-[130px]">
+              <SelectValue placeholder="Granularitas" />
+            </SelectTrigger>
+            <SelectContent>
+              {TREND_GRANULARITIES.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="h-[320px] w-full px-6 pb-6">
+          <ResponsiveContainer width="100%" height={300}>
+            <ComposedChart
+              data={trend}
+              margin={{ top: 10, right: 16, left: 10, bottom: 0 }}
+            >
+              <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+              <XAxis
+                dataKey="name"
+                tickFormatter={(value) => formatPeriod(value, granularity)}
+              />
+              <YAxis tickFormatter={(value) => formatCompactRupiah(value)} />
+              <Tooltip
+                formatter={(value) => formatRupiah(Number(value))}
+                labelFormatter={(label) => formatPeriod(label, granularity)}
+              />
+              <Legend />
+              <Bar
+                dataKey="ave"
+                name="AVE"
+                fill="#0ea5e9"
+                radius={[4, 4, 0, 0]}
+              />
+              <Line
+                type="monotone"
+                dataKey="prValue"
+                name="PR value"
+                stroke="#a855f7"
+                strokeWidth={2}
+                dot={false}
+              />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      </Card>
+
+      <div className="grid gap-4 xl:grid-cols-3">
+        <BreakdownCard
+          title="Media"
+          rows={byMedia}
+          getHref={mediaProfilePath}
+        />
+        <BreakdownCard title="Topik" rows={byTopic} getHref={topicDetailPath} />
+        <BreakdownCard
+          title="Spokesperson"
+          rows={bySpokesperson}
+          getHref={spokespersonProfilePath}
+        />
+      </div>
+
+      <RateCardEditor
+        rateCard={rateCard.rateCard}
+        mediaOptions={mediaOptions}
+        onChange={rateCard.updateRateCard}
+        onReset={rateCard.resetRateCard}
+      />
+    </section>
+  );
+};
+
+export default PrValuePage;
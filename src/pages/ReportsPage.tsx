@@ -14,24 +14,7 @@ import {
   type SheetApiRow,
 } from "../lib/publishedSheet";
 import { Button } from "../components/ui/button";
-
-const normalizeDate = (value: string) => {
-  const trimmed = value.trim();
-  if (!trimmed) return "";
-
-  const match = trimmed.match(/(\d{1,2})[\/\-](\d{1,2})[\/\-](\d{2,4})/);
-  if (match) {
-    const day = match[1].padStart(2, "0");
-    const month = match[2].padStart(2, "0");
-    const year = match[3].length === 2 ? `20${match[3]}` : match[3];
-    return `${year}-${month}-${day}`;
-  }
-
-  const parsed = new Date(trimmed);
-  if (Number.isNaN(parsed.getTime())) return trimmed;
-
-  return parsed.toISOString().slice(0, 10);
-};
+import { normalizeDate } from "../lib/coverage";
 
 const formatLongDate = (value: string) => {
   if (!value) return "-";
@@ -0,0 +1,342 @@
+import { useMemo } from "react";
+import { Link, useOutletContext, useParams } from "react-router-dom";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { ArrowLeft } from "lucide-react";
+import { Badge } from "../components/ui/badge";
+import { Card, CardContent } from "../components/ui/card";
+import LatestArticles from "../components/LatestArticles";
+import RankedList from "../components/RankedList";
+import {
+  normalizeName,
+  sentimentColors,
+  spokespersonNameKey,
+} from "../lib/coverage";
+import {
+  countSentiments,
+  distributionBy,
+  netSentimentScore,
+  sentimentByPeriod,
+  sentimentTrend,
+} from "../lib/coverageSelectors";
+import { applyFilters } from "../lib/filters";
+import { mediaProfilePath, topicDetailPath } from "../lib/profileLinks";
+import { buildSpokespersonLookup } from "../lib/spokespersonRegistry";
+import { SENTIMENT_LABELS } from "../types/coverage";
+import type { DashboardContext } from "../types/dashboard";
+
+const formatDate = (value: string) => {
+  if (!value) return "-";
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime())) return value;
+  return parsed.toLocaleDateString("id-ID", {
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+  });
+};
+
+const formatMonth = (value: string) => {
+  const parsed = new Date(`${value}-01T00:00:00Z`);
+  if (Number.isNaN(parsed.getTime())) return value;
+  return parsed.toLocaleDateString("id-ID", {
+    month: "short",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+};
+
+const SpokespersonProfilePage = () => {
+  const { name = "" } = useParams();
+  const { coverage, filters, filterSearch, spokespersonRegistry } =
+    useOutletContext<DashboardContext>();
+  const { articles, loading, error } = coverage;
+
+  const registryEntry = useMemo(
+    () =>
+      buildSpokespersonLookup(spokespersonRegistry.entries).get(
+        spokespersonNameKey(name),
+      ),
+    [spokespersonRegistry.entries, name],
+  );
+  const displayName = registryEntry?.name ?? normalizeName(name);
+  const personKey = spokespersonNameKey(displayName);
+
+  const scopedArticles = useMemo(
+    () => applyFilters(articles, { ...filters, spokesperson: [] }),
+    [articles, filters],
+  );
+
+  const quotes = useMemo(
+    () =>
+      scopedArticles.filter((row) =>
+        row.spokespersons.some(
+          (person) => spokespersonNameKey(person) === personKey,
+        ),
+      ),
+    [scopedArticles, personKey],
+  );
+
+  const total = quotes.length;
+  const sentimentCounts = countSentiments(quotes);
+  const netScore = netSentimentScore(quotes);
+
+  const timeline = useMemo(() => sentimentTrend(quotes), [quotes]);
+  const monthlyTone = useMemo(
+    () => sentimentByPeriod(quotes, (row) => row.publishedDate.slice(0, 7)),
+    [quotes],
+  );
+
+  const topTopics = useMemo(
+    () => distributionBy(quotes, (row) => row.topic).slice(0, 8),
+    [quotes],
+  );
+  const topMainframes = useMemo(
+    () => distributionBy(quotes, (row) => row.mainframe).slice(0, 8),
+    [quotes],
+  );
+  const mediaDistribution = useMemo(
+    () => distributionBy(quotes, (row) => row.media),
+    [quotes],
+  );
+  const companies = useMemo(
+    () => distributionBy(quotes, (row) => row.company).map((item) => item.name),
+    [quotes],
+  );
+
+  const latestArticles = useMemo(
+    () =>
+      [...quotes]
+        .sort((a, b) => b.publishedDate.localeCompare(a.publishedDate))
+        .slice(0, 10),
+    [quotes],
+  );
+
+  const knownSpokesperson = articles.some((row) =>
+    row.spokespersons.some(
+      (person) => spokespersonNameKey(person) === personKey,
+    ),
+  );
+
+  if (loading) {
+    return (
+      <section className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+        {Array.from({ length: 3 }).map((_, index) => (
+          <div
+            key={index}
+            className="h-80 rounded-2xl border bg-white shadow-sm animate-pulse"
+          />
+        ))}
+      </section>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="rounded-2xl border bg-white p-8 text-center shadow-sm">
+        <h3 className="text-xl font-semibold">Data gagal dimuat</h3>
+        <p className="mt-2 text-sm text-slate-500">{error}</p>
+      </div>
+    );
+  }
+
+  return (
+    <section className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="space-y-1">
+          <Link
+            to={{ pathname: "/spokesperson", search: filterSearch }}
+            className="inline-flex items-center gap-1 text-xs text-slate-500 hover:text-slate-900"
+          >
+            <ArrowLeft className="h-3.5 w-3.5" />
+            Spokesperson
+          </Link>
+          <div className="flex items-center gap-3">
+            {registryEntry?.photoUrl ? (
+              <img
+                src={registryEntry.photoUrl}
+                alt={displayName}
+                className="h-12 w-12 rounded-full object-cover"
+              />
+            ) : null}
+            <div>
+              <h2 className="text-2xl font-bold">{displayName}</h2>
+              {registryEntry?.title || registryEntry?.organization ? (
+                <p className="text-sm text-slate-500">
+                  {[registryEntry.title, registryEntry.organization]
+                    .filter(Boolean)
+                    .join(" · ")}
+                </p>
+              ) : null}
+            </div>
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {companies.map((company) => (
+            <Badge key={company} variant="outline">
+              {company}
+            </Badge>
+          ))}
+        </div>
+      </div>
+
+      {!knownSpokesperson ? (
+        <div className="rounded-2xl border bg-white p-8 text-center shadow-sm">
+          <h3 className="text-xl font-semibold">
+            Spokesperson tidak ditemukan
+          </h3>
+          <p className="mt-2 text-sm text-slate-500">
+            Tidak ada kutipan dari "{name}" di data sheet.
+          </p>
+        </div>
+      ) : total === 0 ? (
+        <div className="rounded-2xl border bg-white p-8 text-center shadow-sm">
+          <h3 className="text-xl font-semibold">Belum ada kutipan</h3>
+          <p className="mt-2 text-sm text-slate-500">
+            Tidak ada kutipan dari {displayName} pada filter saat ini.
+          </p>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-4 xl:grid-cols-4">
+            <Card className="rounded-2xl border bg-white shadow-sm">
+              <CardContent className="p-6">
+                <p className="text-sm text-slate-500">Total Kutipan</p>
+                <h2 className="text-2xl font-bold">{total}</h2>
+                <span className="text-xs text-slate-400">
+                  di {mediaDistribution.length} media
+                </span>
+              </CardContent>
+            </Card>
+            <Card className="rounded-2xl border bg-white shadow-sm">
+              <CardContent className="p-6">
+                <p className="text-sm text-slate-500">% Positif</p>
+                <h2 className="text-2xl font-bold">
+                  {Math.round((sentimentCounts.Positif / total) * 100)}%
+                </h2>
+                <span className="text-xs text-slate-400">
+                  {sentimentCounts.Positif} artikel
+                </span>
+              </CardContent>
+            </Card>
+            <Card className="rounded-2xl border bg-white shadow-sm">
+              <CardContent className="p-6">
+                <p className="text-sm text-slate-500">% Negatif</p>
+                <h2 className="text-2xl font-bold">
+                  {Math.round((sentimentCounts.Negatif / total) * 100)}%
+                </h2>
+                <span className="text-xs text-slate-400">
+                  {sentimentCounts.Negatif} artikel
+                </span>
+              </CardContent>
+            </Card>
+            <Card className="rounded-2xl border bg-white shadow-sm">
+              <CardContent className="p-6">
+                <p className="text-sm text-slate-500">Favorabilitas</p>
+                <h2 className="text-2xl font-bold">{netScore}</h2>
+                <span className="text-xs text-slate-400">
+                  % positif dikurangi % negatif
+                </span>
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="grid gap-4 lg:grid-cols-2">
+            <Card className="rounded-2xl border bg-white shadow-sm">
+              <div className="flex items-center justify-between gap-3 p-6 pb-2">
+                <h3>Linimasa Kemunculan</h3>
+                <span className="text-xs text-slate-400">
+                  Jumlah kutipan per hari
+                </span>
+              </div>
+              <div className="h-[280px] w-full px-6 pb-6">
+                <ResponsiveContainer width="100%" height={260}>
+                  <LineChart
+                    data={timeline}
+                    margin={{ top: 10, right: 16, left: -10, bottom: 0 }}
+                  >
+                    <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                    <XAxis dataKey="date" tickFormatter={formatDate} />
+                    <YAxis allowDecimals={false} />
+                    <Tooltip
+                      labelFormatter={(label) =>
+                        `Tanggal: ${formatDate(label)}`
+                      }
+                    />
+                    <Line
+                      type="monotone"
+                      dataKey="volume"
+                      name="Kutipan"
+                      stroke="#0ea5e9"
+                      strokeWidth={2}
+                      dot={{ r: 2 }}
+                    />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </Card>
+
+            <Card className="rounded-2xl border bg-white shadow-sm">
+              <div className="flex items-center justify-between gap-3 p-6 pb-2">
+                <h3>Tone per Bulan</h3>
+                <span className="text-xs text-slate-400">
+                  Komposisi sentimen kutipan
+                </span>
+              </div>
+              <div className="h-[280px] w-full px-6 pb-6">
+                <ResponsiveContainer width="100%" height={260}>
+                  <BarChart
+                    data={monthlyTone}
+                    margin={{ top: 10, right: 16, left: -10, bottom: 0 }}
+                  >
+                    <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                    <XAxis dataKey="period" tickFormatter={formatMonth} />
+                    <YAxis allowDecimals={false} />
+                    <Tooltip labelFormatter={(label) => formatMonth(label)} />
+                    <Legend />
+                    {SENTIMENT_LABELS.map((label) => (
+                      <Bar
+                        key={label}
+                        dataKey={label}
+                        stackId="tone"
+                        fill={sentimentColors[label]}
+                      />
+                    ))}
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </Card>
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+            <RankedList
+              title="Topik"
+              items={topTopics}
+              getHref={topicDetailPath}
+            />
+            <RankedList title="Mainframe" items={topMainframes} />
+            <RankedList
+              title="Media yang Mengutip"
+              items={mediaDistribution.slice(0, 8)}
+              getHref={mediaProfilePath}
+            />
+          </div>
+
+          <LatestArticles articles={latestArticles} showMedia />
+        </>
+      )}
+    </section>
+  );
+};
+
+export default SpokespersonProfilePage;
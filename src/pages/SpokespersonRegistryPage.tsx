@@ -0,0 +1,392 @@
+import { useMemo, useRef, useState } from "react";
+import { useOutletContext } from "react-router-dom";
+import { Download, Plus, Trash2, Upload, UserRound } from "lucide-react";
+import DuplicateReview from "../components/DuplicateReview";
+import { Badge } from "../components/ui/badge";
+import { Button } from "../components/ui/button";
+import { Card } from "../components/ui/card";
+import { Input } from "../components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "../components/ui/table";
+import { spokespersonNameKey } from "../lib/coverage";
+import { distributionBy } from "../lib/coverageSelectors";
+import { downloadFile } from "../lib/exportFile";
+import {
+  SPOKESPERSON_DUPLICATES_STORAGE_KEY,
+  buildSpokespersonLookup,
+  createSpokespersonEntry,
+  parseSpokespersonRegistryImport,
+} from "../lib/spokespersonRegistry";
+import {
+  findSimilarPairs,
+  personNameSimilarity,
+  useDismissedPairs,
+} from "../lib/similarity";
+import type { DashboardContext } from "../types/dashboard";
+import type { SpokespersonRegistryEntry } from "../types/spokespersonRegistry";
+
+const DUPLICATE_THRESHOLD = 0.8;
+const DUPLICATE_LIMIT = 20;
+
+const splitAliases = (value: string) =>
+  Array.from(
+    new Set(
+      value
+        .split(",")
+        .map((alias) => alias.trim())
+        .filter(Boolean),
+    ),
+  );
+
+const SpokespersonRegistryPage = () => {
+  const { coverage, spokespersonRegistry } =
+    useOutletContext<DashboardContext>();
+  const { articles, loading } = coverage;
+  const { entries, saveEntry, deleteEntry, importEntries } =
+    spokespersonRegistry;
+  const [name, setName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { dismissPair, isDismissed } = useDismissedPairs(
+    SPOKESPERSON_DUPLICATES_STORAGE_KEY,
+  );
+
+  const articleCounts = useMemo(
+    () =>
+      Object.fromEntries(
+        distributionBy(articles, (row) => row.spokespersons).map((item) => [
+          item.name,
+          item.value,
+        ]),
+      ),
+    [articles],
+  );
+
+  const unregistered = useMemo(() => {
+    const lookup = buildSpokespersonLookup(entries);
+    return Object.entries(articleCounts)
+      .filter(([person]) => !lookup.has(spokespersonNameKey(person)))
+      .map(([person, value]) => ({ name: person, value }))
+      .sort((a, b) => b.value - a.value);
+  }, [articleCounts, entries]);
+
+  const duplicatePairs = useMemo(
+    () =>
+      findSimilarPairs(
+        Object.keys(articleCounts),
+        spokespersonNameKey,
+        DUPLICATE_THRESHOLD,
+        personNameSimilarity,
+      ),
+    [articleCounts],
+  );
+  const pendingDuplicates = duplicatePairs
+    .filter((pair) => !isDismissed(pair.a, pair.b))
+    .slice(0, DUPLICATE_LIMIT);
+
+  const sortedEntries = useMemo(
+    () =>
+      [...entries].sort((a, b) =>
+        a.name.localeCompare(b.name, "id-ID", { sensitivity: "base" }),
+      ),
+    [entries],
+  );
+
+  const update = (
+    entry: SpokespersonRegistryEntry,
+    patch: Partial<SpokespersonRegistryEntry>,
+  ) => saveEntry({ ...entry, ...patch });
+
+  const entryFromArticles = (person: string) =>
+    createSpokespersonEntry(person, {
+      organization:
+        articles.find((row) => row.spokespersons.includes(person))?.company ??
+        "",
+    });
+
+  const mergeSpokespersons = (source: string, target: string) => {
+    const lookup = buildSpokespersonLookup(entries);
+    const sourceEntry = lookup.get(spokespersonNameKey(source));
+    const targetEntry =
+      lookup.get(spokespersonNameKey(target)) ?? entryFromArticles(target);
+    saveEntry({
+      ...targetEntry,
+      aliases: Array.from(
+        new Set([
+          ...targetEntry.aliases,
+          source,
+          ...(sourceEntry?.aliases ?? []),
+        ]),
+      ),
+      title: targetEntry.title || sourceEntry?.title || "",
+      photoUrl: targetEntry.photoUrl || sourceEntry?.photoUrl || "",
+    });
+    if (sourceEntry && sourceEntry.id !== targetEntry.id) {
+      deleteEntry(sourceEntry.id);
+    }
+  };
+
+  const handleAdd = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    if (buildSpokespersonLookup(entries).has(spokespersonNameKey(trimmed))) {
+      setError(`${trimmed} sudah terdaftar.`);
+      return;
+    }
+    saveEntry(createSpokespersonEntry(trimmed));
+    setName("");
+    setError(null);
+  };
+
+  const handleExport = () =>
+    downloadFile(
+      JSON.stringify({ entries }, null, 2),
+      "medmon-spokesperson-registry.json",
+      "application/json",
+    );
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    try {
+      importEntries(parseSpokespersonRegistryImport(await file.text()));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Import gagal.");
+    }
+  };
+
+  return (
+    <section className="space-y-4">
+      <Card className="rounded-2xl border bg-white shadow-sm">
+        <div className="flex flex-wrap items-start justify-between gap-4 p-6 pb-2">
+          <div className="space-y-1">
+            <h3>Registri Spokesperson</h3>
+            <span className="text-xs text-slate-400">
+              {entries.length} spokesperson terdaftar · disimpan di browser ini
+            </span>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <form className="flex gap-2" onSubmit={handleAdd}>
+              <Input
+                className="h-9 w-56"
+                value={name}
+                onChange={(event) => setName(event.target.value)}
+                placeholder="Nama spokesperson"
+                aria-label="Nama spokesperson"
+              />
+              <Button size="sm" type="submit" disabled={!name.trim()}>
+                <Plus className="h-3.5 w-3.5" />
+                Tambah
+              </Button>
+            </form>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => fileInputRef.current?.click()}
+            >
+              <Upload className="h-3.5 w-3.5" />
+              Import
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleExport}
+              disabled={entries.length === 0}
+            >
+              <Download className="h-3.5 w-3.5" />
+              Export
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={handleImport}
+            />
+          </div>
+        </div>
+        {error ? (
+          <p className="px-6 text-xs text-rose-500" role="alert">
+            {error}
+          </p>
+        ) : null}
+        <div className="table-wrapper px-6 pb-6">
+          {entries.length === 0 ? (
+            <p className="py-6 text-sm text-slate-500">
+              Belum ada spokesperson terdaftar. Tambahkan manual atau dari
+              daftar spokesperson di bawah.
+            </p>
+          ) : (
+            <Table className="text-sm">
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="text-sm" />
+                  <TableHead className="text-sm">Nama Kanonik</TableHead>
+                  <TableHead className="text-sm">Alias</TableHead>
+                  <TableHead className="text-sm">Jabatan</TableHead>
+                  <TableHead className="text-sm">Organisasi</TableHead>
+                  <TableHead className="text-sm">URL Foto</TableHead>
+                  <TableHead className="text-sm">Kutipan</TableHead>
+                  <TableHead className="text-sm" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sortedEntries.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell>
+                      {entry.photoUrl ? (
+                        <img
+                          src={entry.photoUrl}
+                          alt={entry.name}
+                          className="h-8 w-8 rounded-full object-cover"
+                        />
+                      ) : (
+                        <span className="flex h-8 w-8 items-center justify-center rounded-full bg-slate-100 text-slate-400">
+                          <UserRound className="h-4 w-4" />
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        key={entry.name}
+                        className="h-8 min-w-[160px] text-xs"
+                        defaultValue={entry.name}
+                        aria-label="Nama kanonik"
+                        onBlur={(event) => {
+                          const value = event.target.value.trim();
+                          if (value && value !== entry.name) {
+                            update(entry, { name: value });
+                          }
+                        }}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        key={entry.aliases.join(",")}
+                        className="h-8 min-w-[180px] text-xs"
+                        defaultValue={entry.aliases.join(", ")}
+                        placeholder="Pisahkan dengan koma"
+                        aria-label="Alias spokesperson"
+                        onBlur={(event) =>
+                          update(entry, {
+                            aliases: splitAliases(event.target.value),
+                          })
+                        }
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        className="h-8 min-w-[140px] text-xs"
+                        defaultValue={entry.title}
+                        aria-label="Jabatan"
+                        onBlur={(event) =>
+                          update(entry, { title: event.target.value.trim() })
+                        }
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        key={entry.organization}
+                        className="h-8 min-w-[140px] text-xs"
+                        defaultValue={entry.organization}
+                        aria-label="Organisasi"
+                        onBlur={(event) =>
+                          update(entry, {
+                            organization: event.target.value.trim(),
+                          })
+                        }
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        key={entry.photoUrl}
+                        type="url"
+                        className="h-8 min-w-[160px] text-xs"
+                        defaultValue={entry.photoUrl}
+                        placeholder="https://"
+                        aria-label="URL foto"
+                        onBlur={(event) =>
+                          update(entry, {
+                            photoUrl: event.target.value.trim(),
+                          })
+                        }
+                      />
+                    </TableCell>
+                    <TableCell className="text-right text-xs text-slate-500">
+                      {articleCounts[entry.name] ?? 0}
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => deleteEntry(entry.id)}
+                        aria-label={`Hapus ${entry.name}`}
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </Card>
+
+      <DuplicateReview
+        title="Kemungkinan Duplikat"
+        description="Nama spokesperson yang mirip, misalnya sapaan atau nama singkat. Gabungkan agar kutipannya dihitung sebagai satu orang."
+        pairs={pendingDuplicates}
+        counts={articleCounts}
+        onMerge={mergeSpokespersons}
+        onDismiss={dismissPair}
+      />
+
+      <Card className="rounded-2xl border bg-white shadow-sm">
+        <div className="flex items-center justify-between gap-3 p-6 pb-2">
+          <h3>Spokesperson Belum Terdaftar</h3>
+          <span className="text-xs text-slate-400">
+            {loading
+              ? "Memuat…"
+              : `${unregistered.length} spokesperson dari data`}
+          </span>
+        </div>
+        <div className="flex flex-wrap gap-2 px-6 pb-6 pt-2">
+          {unregistered.length === 0 ? (
+            <p className="text-sm text-slate-500">
+              Semua spokesperson pada data sudah terdaftar.
+            </p>
+          ) : (
+            unregistered.map((item) => (
+              <button
+                key={item.name}
+                type="button"
+                className="inline-flex items-center gap-1 rounded-full border px-3 py-1 text-xs hover:bg-slate-50"
+                onClick={() => saveEntry(entryFromArticles(item.name))}
+                title={`Daftarkan ${item.name}`}
+              >
+                <Plus className="h-3 w-3" />
+                {item.name}
+                <Badge variant="outline" className="ml-1">
+                  {item.value}
+                </Badge>
+              </button>
+            ))
+          )}
+        </div>
+      </Card>
+    </section>
+  );
+};
+
+export default SpokespersonRegistryPage;
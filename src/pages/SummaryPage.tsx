@@ -1,18 +1,49 @@
 import { useOutletContext } from "react-router-dom";
 import type { DashboardContext } from "../types/dashboard";
-import { sentimentColors } from "../data/mediaData";
+import { sentimentColors } from "../lib/coverage";
+import { latestDate as selectLatestDate } from "../lib/coverageSelectors";
+import { formatRupiah } from "../lib/prValue";
+import { NET_SENTIMENT_FORMULA } from "../lib/sentimentIndex";
 import { Card, CardContent } from "../components/ui/card";
 
 const SummaryPage = () => {
-  const { kpis, sentimentData, mediaData, topicData, filteredArticles } =
-    useOutletContext<DashboardContext>();
+  const {
+    coverage,
+    kpis,
+    sentimentData,
+    mediaData,
+    topicData,
+    filteredArticles,
+  } = useOutletContext<DashboardContext>();
 
   const total = kpis.total || 1;
   const topMedia = mediaData[0];
   const topTopic = topicData[0];
-  const latestDate = filteredArticles.length
-    ? filteredArticles[filteredArticles.length - 1].date
-    : undefined;
+  const latestDate =
+    selectLatestDate(filteredArticles, (article) => article.publishedDate) ||
+    undefined;
+
+  if (coverage.loading) {
+    return (
+      <section className="grid gap-4 md:grid-cols-2 xl:grid-cols-4">
+        {Array.from({ length: 4 }).map((_, index) => (
+          <div
+            key={index}
+            className="h-28 rounded-2xl border bg-white shadow-sm animate-pulse"
+          />
+        ))}
+      </section>
+    );
+  }
+
+  if (coverage.error) {
+    return (
+      <div className="rounded-2xl border bg-white p-8 text-center shadow-sm">
+        <h3 className="text-xl font-semibold">Data gagal dimuat</h3>
+        <p className="mt-2 text-sm text-slate-500">{coverage.error}</p>
+      </div>
+    );
+  }
 
   return (
     <>
@@ -40,9 +71,11 @@ const SummaryPage = () => {
         </Card>
         <Card className="kpi-card border-none shadow-none">
           <CardContent className="p-0">
-            <p>Avg. sentiment</p>
-            <h2>{kpis.avgScore}</h2>
-            <span className="kpi-meta">Weighted score</span>
+            <p>Net sentiment</p>
+            <h2>{kpis.netScore}</h2>
+            <span className="kpi-meta" title={NET_SENTIMENT_FORMULA}>
+              (Positive − Negative) ÷ total
+            </span>
           </CardContent>
         </Card>
       </section>
@@ -107,7 +140,20 @@ const SummaryPage = () => {
               <strong>{latestDate ?? "N/A"}</strong>.
             </li>
             <li>
-              Overall sentiment score sits at <strong>{kpis.avgScore}</strong>,
+              Earned media value reaches{" "}
+              <strong>{formatRupiah(kpis.ave)}</strong> AVE and{" "}
+              <strong>{formatRupiah(kpis.prValue)}</strong> PR value.
+            </li>
+            {kpis.reachWeightedScore !== null ? (
+              <li>
+                Estimated reach totals{" "}
+                <strong>{kpis.totalReach.toLocaleString("id-ID")}</strong> with
+                a reach-weighted sentiment of{" "}
+                <strong>{kpis.reachWeightedScore}</strong>.
+              </li>
+            ) : null}
+            <li>
+              Net sentiment score sits at <strong>{kpis.netScore}</strong>,
               reflecting a mostly{" "}
               {kpis.positiveShare >= kpis.negativeShare
                 ? "positive"
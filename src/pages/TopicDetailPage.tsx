@@ -0,0 +1,321 @@
+import { useMemo, useState } from "react";
+import { Link, useOutletContext, useParams } from "react-router-dom";
+import {
+  Bar,
+  CartesianGrid,
+  ComposedChart,
+  Legend,
+  Line,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { ArrowLeft } from "lucide-react";
+import { Button } from "../components/ui/button";
+import { Card, CardContent } from "../components/ui/card";
+import LatestArticles from "../components/LatestArticles";
+import RankedList from "../components/RankedList";
+import {
+  distributionBy,
+  netSentimentScore,
+  sentimentTrend,
+} from "../lib/coverageSelectors";
+import { startOfIsoWeek } from "../lib/dateRange";
+import { applyFilters } from "../lib/filters";
+import { mediaProfilePath, spokespersonProfilePath } from "../lib/profileLinks";
+import { usePagination } from "../lib/usePagination";
+import type { DashboardContext } from "../types/dashboard";
+
+const formatDate = (value: string) => {
+  if (!value) return "-";
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime())) return value;
+  return parsed.toLocaleDateString("id-ID", {
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+  });
+};
+
+const TopicDetailPage = () => {
+  const { topic = "" } = useParams();
+  const { coverage, filters, filterSearch } =
+    useOutletContext<DashboardContext>();
+  const { articles, loading, error } = coverage;
+  const [granularity, setGranularity] = useState<"day" | "week">("day");
+
+  const topicArticles = useMemo(
+    () =>
+      applyFilters(articles, { ...filters, topic: [] }).filter(
+        (row) => row.topic === topic,
+      ),
+    [articles, filters, topic],
+  );
+
+  const datedArticles = useMemo(
+    () =>
+      topicArticles
+        .filter((row) => row.publishedDate)
+        .sort((a, b) => b.publishedDate.localeCompare(a.publishedDate)),
+    [topicArticles],
+  );
+
+  const dailyTrend = useMemo(
+    () => sentimentTrend(datedArticles),
+    [datedArticles],
+  );
+
+  const trend = useMemo(
+    () =>
+      granularity === "week"
+        ? sentimentTrend(datedArticles, (row) =>
+            startOfIsoWeek(row.publishedDate),
+          )
+        : dailyTrend,
+    [granularity, datedArticles, dailyTrend],
+  );
+
+  const firstAppearance =
+    datedArticles[datedArticles.length - 1]?.publishedDate;
+  const lastAppearance = datedArticles[0]?.publishedDate;
+  const peakDay = dailyTrend.reduce<(typeof dailyTrend)[number] | null>(
+    (peak, point) => (!peak || point.volume > peak.volume ? point : peak),
+    null,
+  );
+
+  const topMedia = useMemo(
+    () => distributionBy(topicArticles, (row) => row.media).slice(0, 8),
+    [topicArticles],
+  );
+  const topSpokespersons = useMemo(
+    () => distributionBy(topicArticles, (row) => row.spokespersons).slice(0, 8),
+    [topicArticles],
+  );
+  const topMainframes = useMemo(
+    () => distributionBy(topicArticles, (row) => row.mainframe).slice(0, 8),
+    [topicArticles],
+  );
+
+  const headlineArticles = useMemo(
+    () =>
+      [...topicArticles].sort(
+        (a, b) =>
+          Number(!a.publishedDate) - Number(!b.publishedDate) ||
+          b.publishedDate.localeCompare(a.publishedDate),
+      ),
+    [topicArticles],
+  );
+
+  const {
+    page,
+    totalPages,
+    pageItems: headlineRows,
+    setPage,
+  } = usePagination(headlineArticles, 10);
+
+  const knownTopic = articles.some((row) => row.topic === topic);
+
+  if (loading) {
+    return (
+      <section className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+        {Array.from({ length: 3 }).map((_, index) => (
+          <div
+            key={index}
+            className="h-80 rounded-2xl border bg-white shadow-sm animate-pulse"
+          />
+        ))}
+      </section>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="rounded-2xl border bg-white p-8 text-center shadow-sm">
+        <h3 className="text-xl font-semibold">Data gagal dimuat</h3>
+        <p className="mt-2 text-sm text-slate-500">{error}</p>
+      </div>
+    );
+  }
+
+  return (
+    <section className="space-y-4">
+      <div className="space-y-1">
+        <Link
+          to={{ pathname: "/topik", search: filterSearch }}
+          className="inline-flex items-center gap-1 text-xs text-slate-500 hover:text-slate-900"
+        >
+          <ArrowLeft className="h-3.5 w-3.5" />
+          Sebaran Topik
+        </Link>
+        <h2 className="text-2xl font-bold">{topic}</h2>
+      </div>
+
+      {!knownTopic ? (
+        <div className="rounded-2xl border bg-white p-8 text-center shadow-sm">
+          <h3 className="text-xl font-semibold">Topik tidak ditemukan</h3>
+          <p className="mt-2 text-sm text-slate-500">
+            Tidak ada pemberitaan dengan topik "{topic}" di data sheet.
+          </p>
+        </div>
+      ) : topicArticles.length === 0 ? (
+        <div className="rounded-2xl border bg-white p-8 text-center shadow-sm">
+          <h3 className="text-xl font-semibold">Belum ada pemberitaan</h3>
+          <p className="mt-2 text-sm text-slate-500">
+            Tidak ada pemberitaan topik ini pada filter saat ini.
+          </p>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-4 xl:grid-cols-4">
+            <Card className="rounded-2xl border bg-white shadow-sm">
+              <CardContent className="p-6">
+                <p className="text-sm text-slate-500">Total Pemberitaan</p>
+                <h2 className="text-2xl font-bold">{topicArticles.length}</h2>
+                <span className="text-xs text-slate-400">
+                  Skor bersih {netSentimentScore(topicArticles)}
+                </span>
+              </CardContent>
+            </Card>
+            <Card className="rounded-2xl border bg-white shadow-sm">
+              <CardContent className="p-6">
+                <p className="text-sm text-slate-500">Pertama muncul</p>
+                <h2 className="text-2xl font-bold">
+                  {formatDate(firstAppearance ?? "")}
+                </h2>
+              </CardContent>
+            </Card>
+            <Card className="rounded-2xl border bg-white shadow-sm">
+              <CardContent className="p-6">
+                <p className="text-sm text-slate-500">Terakhir muncul</p>
+                <h2 className="text-2xl font-bold">
+                  {formatDate(lastAppearance ?? "")}
+                </h2>
+              </CardContent>
+            </Card>
+            <Card className="rounded-2xl border bg-white shadow-sm">
+              <CardContent className="p-6">
+                <p className="text-sm text-slate-500">Hari puncak</p>
+                <h2 className="text-2xl font-bold">
+                  {formatDate(peakDay?.date ?? "")}
+                </h2>
+                <span className="text-xs text-slate-400">
+                  {peakDay?.volume ?? 0} pemberitaan
+                </span>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card className="rounded-2xl border bg-white shadow-sm">
+            <div className="flex flex-wrap items-center justify-between gap-3 p-6 pb-2">
+              <div className="space-y-1">
+                <h3>Siklus Isu</h3>
+                <span className="text-xs text-slate-400">
+                  Volume pemberitaan dan rata-rata skor sentimen
+                </span>
+              </div>
+              <div className="flex items-center gap-2">
+                <Button
+                  variant={granularity === "day" ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setGranularity("day")}
+                >
+                  Harian
+                </Button>
+                <Button
+                  variant={granularity === "week" ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setGranularity("week")}
+                >
+                  Mingguan
+                </Button>
+              </div>
+            </div>
+            <div className="h-[320px] w-full px-6 pb-6">
+              <ResponsiveContainer width="100%" height={300}>
+                <ComposedChart
+                  data={trend}
+                  margin={{ top: 10, right: 0, left: -10, bottom: 0 }}
+                >
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                  <XAxis dataKey="date" tickFormatter={formatDate} />
+                  <YAxis yAxisId="volume" allowDecimals={false} />
+                  <YAxis
+                    yAxisId="sentiment"
+                    orientation="right"
+                    domain={[-1, 1]}
+                  />
+                  <Tooltip
+                    labelFormatter={(label) =>
+                      granularity === "week"
+                        ? `Minggu mulai ${formatDate(label)}`
+                        : `Tanggal: ${formatDate(label)}`
+                    }
+                  />
+                  <Legend />
+                  <Bar
+                    yAxisId="volume"
+                    dataKey="volume"
+                    name="Volume"
+                    fill="#0ea5e9"
+                    radius={[4, 4, 0, 0]}
+                  />
+                  <Line
+                    yAxisId="sentiment"
+                    type="monotone"
+                    dataKey="sentiment"
+                    name="Skor sentimen"
+                    stroke="#a855f7"
+                    strokeWidth={2}
+                    dot={false}
+                  />
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+          </Card>
+
+          <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+            <RankedList
+              title="Media Penggerak"
+              items={topMedia}
+              getHref={mediaProfilePath}
+            />
+            <RankedList
+              title="Spokesperson Terlibat"
+              items={topSpokespersons}
+              getHref={spokespersonProfilePath}
+            />
+            <RankedList title="Mainframe" items={topMainframes} />
+          </div>
+
+          <LatestArticles
+            title="Daftar Headline"
+            articles={headlineRows}
+            showMedia
+          />
+          <div className="flex items-center justify-end gap-3 text-sm text-slate-500">
+            <Button
+              variant="outline"
+              onClick={() => setPage((prev) => Math.max(1, prev - 1))}
+              disabled={page === 1}
+            >
+              Sebelumnya
+            </Button>
+            <span>
+              Halaman {page} dari {totalPages}
+            </span>
+            <Button
+              variant="outline"
+              onClick={() => setPage((prev) => Math.min(totalPages, prev + 1))}
+              disabled={page === totalPages}
+            >
+              Berikutnya
+            </Button>
+          </div>
+        </>
+      )}
+    </section>
+  );
+};
+
+export default TopicDetailPage;
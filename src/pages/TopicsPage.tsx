@@ -1,4 +1,5 @@
-import { useEffect, useMemo, useState } from "react";
+import { useMemo, useState } from "react";
+import { useOutletContext } from "react-router-dom";
 import {
   Bar,
   BarChart,
@@ -10,231 +11,106 @@ import {
 } from "recharts";
 import { Card } from "../components/ui/card";
 import { Button } from "../components/ui/button";
-import { Input } from "../components/ui/input";
-import {
-  fetchPublishedSheetRows,
-  SHEET_REFRESH_MS,
-  type SheetApiRow,
-} from "../lib/publishedSheet";
-
-type SheetRow = {
-  publishedDate: string;
-  topic: string;
-  sentiment: string;
-};
-
-type SentimentLabel = "Positif" | "Netral" | "Negatif";
-
-const mapSentiment = (value: string): SentimentLabel => {
-  const lower = value.toLowerCase();
-  if (lower.includes("positif") || lower.includes("positive")) return "Positif";
-  if (lower.includes("negatif") || lower.includes("negative")) return "Negatif";
-  return "Netral";
-};
-
-const normalizeDate = (value: string) => {
-  const trimmed = value.trim();
-  if (!trimmed) return "";
-
-  const match = trimmed.match(/(\d{1,2})[\/\-](\d{1,2})[\/\-](\d{2,4})/);
-  if (match) {
-    const day = match[1].padStart(2, "0");
-    const month = match[2].padStart(2, "0");
-    const year = match[3].length === 2 ? `20${match[3]}` : match[3];
-    return `${year}-${month}-${day}`;
-  }
-
-  const parsed = new Date(trimmed);
-  if (Number.isNaN(parsed.getTime())) return trimmed;
-
-  return parsed.toISOString().slice(0, 10);
-};
-
-const DEFAULT_START_DATE = "2025-01-01";
+import ArticleDrawer from "../components/ArticleDrawer";
+import ProfileLink from "../components/ProfileLink";
+import RankMovement from "../components/RankMovement";
+import { distributionBy, rankMovements } from "../lib/coverageSelectors";
+import { toggleFacetValue } from "../lib/filters";
+import { topicDetailPath } from "../lib/profileLinks";
+import { usePagination } from "../lib/usePagination";
+import type { SentimentLabel } from "../types/coverage";
+import type { DashboardContext, DrillDown } from "../types/dashboard";
 
 const TopicsPage = () => {
-  const [rows, setRows] = useState<SheetRow[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [dateFrom, setDateFrom] = useState("");
-  const [dateTo, setDateTo] = useState("");
-  const [topicPage, setTopicPage] = useState(1);
-  const [positivePage, setPositivePage] = useState(1);
-  const [negativePage, setNegativePage] = useState(1);
-
-  const fetchSheet = async (showLoading = true) => {
-    try {
-      if (showLoading) {
-        setLoading(true);
-      }
-      setError(null);
-      const rows = await fetchPublishedSheetRows();
-      const mapped = rows.map((row: SheetApiRow) => {
-        const normalizedRow: Record<string, string> = {};
-        Object.entries(row).forEach(([key, value]) => {
-          if (!key) return;
-          normalizedRow[key.trim().toUpperCase()] = String(value ?? "");
-        });
-
-        const getValue = (column: string) => normalizedRow[column] ?? "";
-
-        const rawDate = String(getValue("TANGGAL"));
-        const normalizedDate = normalizeDate(rawDate);
-
-        const rawTopic = String(getValue("TOPIK") || "").trim();
-
-        return {
-          publishedDate: normalizedDate,
-          topic: rawTopic || "Lainnya",
-          sentiment: mapSentiment(String(getValue("TONE") || "")),
-        };
-      });
-
-      setRows(mapped);
-
-      const today = new Date();
-      const todayString = today.toISOString().slice(0, 10);
-      setDateFrom((current) => current || DEFAULT_START_DATE);
-      setDateTo((current) => current || todayString);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : "Terjadi kesalahan.");
-    } finally {
-      if (showLoading) {
-        setLoading(false);
-      }
-    }
-  };
-
-  useEffect(() => {
-    fetchSheet();
-    const intervalId = window.setInterval(() => {
-      fetchSheet(false);
-    }, SHEET_REFRESH_MS);
-    return () => window.clearInterval(intervalId);
-  }, []);
-
-  const [minDate] = useMemo(() => {
-    const dates = rows
-      .map((item) => item.publishedDate)
-      .filter(Boolean)
-      .sort();
-    return [DEFAULT_START_DATE, dates[dates.length - 1] ?? ""];
-  }, [rows]);
-
-  const todayString = useMemo(() => {
-    return new Date().toISOString().slice(0, 10);
-  }, []);
-
-  const filteredRows = useMemo(() => {
-    return rows.filter((row) => {
-      const withinDate =
-        (!dateFrom || row.publishedDate >= dateFrom) &&
-        (!dateTo || row.publishedDate <= dateTo);
-      return withinDate;
+  const {
+    coverage,
+    filters,
+    updateFilters,
+    filteredArticles,
+    comparisonArticles,
+  } = useOutletContext<DashboardContext>();
+  const { loading, error } = coverage;
+  const [drillDown, setDrillDown] = useState<DrillDown | null>(null);
+
+  const openDrillDown = (name: string, sentiment: SentimentLabel) =>
+    setDrillDown({
+      title: `${name} · ${sentiment}`,
+      articles: filteredArticles.filter(
+        (row) => row.topic === name && row.sentiment === sentiment,
+      ),
     });
-  }, [rows, dateFrom, dateTo]);
 
-  const topicDistribution = useMemo(() => {
-    const counts = filteredRows.reduce<Record<string, number>>((acc, row) => {
-      acc[row.topic] = (acc[row.topic] || 0) + 1;
-      return acc;
-    }, {});
-    return Object.entries(counts)
-      .map(([name, value]) => ({ name, value }))
-      .sort((a, b) => b.value - a.value);
-  }, [filteredRows]);
-
-  const topicPageSize = 10;
-  const totalTopicPages = Math.max(
-    1,
-    Math.ceil(topicDistribution.length / topicPageSize),
+  const topicDistribution = useMemo(
+    () => distributionBy(filteredArticles, (row) => row.topic),
+    [filteredArticles],
   );
 
-  useEffect(() => {
-    setTopicPage(1);
-    setPositivePage(1);
-    setNegativePage(1);
-  }, [dateFrom, dateTo]);
-
-  useEffect(() => {
-    if (topicPage > totalTopicPages) {
-      setTopicPage(totalTopicPages);
-    }
-  }, [topicPage, totalTopicPages]);
-
-  const topicChartData = useMemo(
+  const topicPageSize = 10;
+  const {
+    page: topicPage,
+    totalPages: totalTopicPages,
+    pageItems: topicChartData,
+    setPage: setTopicPage,
+  } = usePagination(topicDistribution, topicPageSize);
+
+  const positiveDistribution = useMemo(
     () =>
-      topicDistribution.slice(
-        (topicPage - 1) * topicPageSize,
-        topicPage * topicPageSize,
+      distributionBy(
+        filteredArticles.filter((row) => row.sentiment === "Positif"),
+        (row) => row.topic,
       ),
-    [topicDistribution, topicPage, topicPageSize],
+    [filteredArticles],
   );
 
-  const positiveDistribution = useMemo(() => {
-    const counts = filteredRows
-      .filter((row) => row.sentiment === "Positif")
-      .reduce<Record<string, number>>((acc, row) => {
-        acc[row.topic] = (acc[row.topic] || 0) + 1;
-        return acc;
-      }, {});
-    return Object.entries(counts)
-      .map(([name, value]) => ({ name, value }))
-      .sort((a, b) => b.value - a.value);
-  }, [filteredRows]);
-
-  const negativeDistribution = useMemo(() => {
-    const counts = filteredRows
-      .filter((row) => row.sentiment === "Negatif")
-      .reduce<Record<string, number>>((acc, row) => {
-        acc[row.topic] = (acc[row.topic] || 0) + 1;
-        return acc;
-      }, {});
-    return Object.entries(counts)
-      .map(([name, value]) => ({ name, value }))
-      .sort((a, b) => b.value - a.value);
-  }, [filteredRows]);
-
-  const positivePageSize = 10;
-  const totalPositivePages = Math.max(
-    1,
-    Math.ceil(positiveDistribution.length / positivePageSize),
-  );
-  const totalNegativePages = Math.max(
-    1,
-    Math.ceil(negativeDistribution.length / positivePageSize),
+  const negativeDistribution = useMemo(
+    () =>
+      distributionBy(
+        filteredArticles.filter((row) => row.sentiment === "Negatif"),
+        (row) => row.topic,
+      ),
+    [filteredArticles],
   );
 
-  useEffect(() => {
-    if (positivePage > totalPositivePages) {
-      setPositivePage(totalPositivePages);
-    }
-  }, [positivePage, totalPositivePages]);
-
-  useEffect(() => {
-    if (negativePage > totalNegativePages) {
-      setNegativePage(totalNegativePages);
-    }
-  }, [negativePage, totalNegativePages]);
-
-  const topPositive = useMemo(
+  const positiveMovements = useMemo(
     () =>
-      positiveDistribution.slice(
-        (positivePage - 1) * positivePageSize,
-        positivePage * positivePageSize,
+      rankMovements(
+        positiveDistribution,
+        comparisonArticles &&
+          distributionBy(
+            comparisonArticles.filter((row) => row.sentiment === "Positif"),
+            (row) => row.topic,
+          ),
       ),
-    [positiveDistribution, positivePage, positivePageSize],
+    [positiveDistribution, comparisonArticles],
   );
 
-  const topNegative = useMemo(
+  const negativeMovements = useMemo(
     () =>
-      negativeDistribution.slice(
-        (negativePage - 1) * positivePageSize,
-        negativePage * positivePageSize,
+      rankMovements(
+        negativeDistribution,
+        comparisonArticles &&
+          distributionBy(
+            comparisonArticles.filter((row) => row.sentiment === "Negatif"),
+            (row) => row.topic,
+          ),
       ),
-    [negativeDistribution, negativePage, positivePageSize],
+    [negativeDistribution, comparisonArticles],
   );
 
+  const positivePageSize = 10;
+  const {
+    page: positivePage,
+    totalPages: totalPositivePages,
+    pageItems: topPositive,
+    setPage: setPositivePage,
+  } = usePagination(positiveDistribution, positivePageSize, "positivePage");
+  const {
+    page: negativePage,
+    totalPages: totalNegativePages,
+    pageItems: topNegative,
+    setPage: setNegativePage,
+  } = usePagination(negativeDistribution, positivePageSize, "negativePage");
+
   const maxPositive = Math.max(1, ...topPositive.map((item) => item.value));
   const maxNegative = Math.max(1, ...topNegative.map((item) => item.value));
 
@@ -262,44 +138,6 @@ const TopicsPage = () => {
 
   return (
     <section className="space-y-4">
-      <div className="flex flex-wrap items-end gap-2 rounded-2xl border bg-white p-4 shadow-sm">
-        <div className="flex min-w-[150px] flex-col gap-2">
-          <label className="text-xs text-slate-500" htmlFor="topicDateFrom">
-            Dari tanggal
-          </label>
-          <Input
-            id="topicDateFrom"
-            type="date"
-            value={dateFrom}
-            min={minDate || undefined}
-            max={dateTo || todayString}
-            onChange={(event) => setDateFrom(event.target.value)}
-          />
-        </div>
-        <div className="flex min-w-[150px] flex-col gap-2">
-          <label className="text-xs text-slate-500" htmlFor="topicDateTo">
-            Sampai
-          </label>
-          <Input
-            id="topicDateTo"
-            type="date"
-            value={dateTo}
-            min={dateFrom || undefined}
-            max={todayString}
-            onChange={(event) => setDateTo(event.target.value)}
-          />
-        </div>
-        <Button
-          variant="outline"
-          onClick={() => {
-            setDateFrom(DEFAULT_START_DATE);
-            setDateTo(todayString);
-          }}
-        >
-          Reset filter
-        </Button>
-      </div>
-
       <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-2">
         <Card className="rounded-2xl border bg-white shadow-sm xl:col-span-2">
           <div className="flex items-center justify-between gap-3 p-6 pb-2">
@@ -351,7 +189,21 @@ const TopicsPage = () => {
                   interval={0}
                 />
                 <Tooltip />
-                <Bar dataKey="value" fill="#0ea5e9" radius={[6, 6, 6, 6]} />
+                <Bar
+                  dataKey="value"
+                  fill="#0ea5e9"
+                  radius={[6, 6, 6, 6]}
+                  className="cursor-pointer"
+                  onClick={(_, index) =>
+                    updateFilters(
+                      toggleFacetValue(
+                        filters,
+                        "topic",
+                        topicChartData[index].name,
+                      ),
+                    )
+                  }
+                />
               </BarChart>
             </ResponsiveContainer>
           </div>
@@ -422,9 +274,20 @@ const TopicsPage = () => {
                 <div key={item.name} className="space-y-1">
                   <div className="flex items-center justify-between text-sm">
                     <span className="font-medium text-xs text-slate-900">
-                      {item.name}
+                      <ProfileLink to={topicDetailPath(item.name)}>
+                        {item.name}
+                      </ProfileLink>
+                    </span>
+                    <span className="flex items-center gap-2 text-slate-500">
+                      <RankMovement movement={positiveMovements[item.name]} />
+                      <button
+                        type="button"
+                        className="hover:text-slate-900 hover:underline"
+                        onClick={() => openDrillDown(item.name, "Positif")}
+                      >
+                        {item.value}
+                      </button>
                     </span>
-                    <span className="text-slate-500">{item.value}</span>
                   </div>
                   <div className="h-2 rounded-full bg-emerald-50">
                     <div
@@ -505,9 +368,20 @@ const TopicsPage = () => {
                 <div key={item.name} className="space-y-1">
                   <div className="flex items-center justify-between text-sm">
                     <span className="font-medium text-xs text-slate-900">
-                      {item.name}
+                      <ProfileLink to={topicDetailPath(item.name)}>
+                        {item.name}
+                      </ProfileLink>
+                    </span>
+                    <span className="flex items-center gap-2 text-slate-500">
+                      <RankMovement movement={negativeMovements[item.name]} />
+                      <button
+                        type="button"
+                        className="hover:text-slate-900 hover:underline"
+                        onClick={() => openDrillDown(item.name, "Negatif")}
+                      >
+                        {item.value}
+                      </button>
                     </span>
-                    <span className="text-slate-500">{item.value}</span>
                   </div>
                   <div className="h-2 rounded-full bg-rose-50">
                     <div
@@ -546,6 +420,8 @@ const TopicsPage = () => {
           </div>
         </Card>
       </div>
+
+      <ArticleDrawer drillDown={drillDown} onClose={() => setDrillDown(null)} />
     </section>
   );
 };
@@ -0,0 +1,11 @@
+export type AnomalyMetric = "volume" | "negativeShare";
+
+export type AnomalySensitivity = "low" | "medium" | "high";
+
+export type Anomaly = {
+  date: string;
+  metric: AnomalyMetric;
+  value: number;
+  baseline: number;
+  score: number;
+};
@@ -0,0 +1,31 @@
+import type { MediaTier } from "./mediaRegistry";
+
+export const SENTIMENT_LABELS = ["Positif", "Netral", "Negatif"] as const;
+
+export type SentimentLabel = (typeof SENTIMENT_LABELS)[number];
+
+export type MediaType = "Online" | "Cetak";
+
+export type CoverageArticle = {
+  id: string;
+  publishedDate: string;
+  media: string;
+  title: string;
+  summary: string;
+  spokesperson: string;
+  spokespersons: string[];
+  mainframe: string;
+  topic: string;
+  sentiment: SentimentLabel;
+  toneLabel: string;
+  url: string;
+  company: string;
+  mediaType: MediaType;
+  mediaScope: string;
+  mediaTier: MediaTier | "";
+  mediaReach: number;
+  mainSubject: boolean;
+  columnCm: number;
+  ave: number;
+  prValue: number;
+};
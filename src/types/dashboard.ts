@@ -1,11 +1,27 @@
-import type { Article, Sentiment } from "../data/mediaData";
+import type { CoverageArticle, SentimentLabel } from "./coverage";
+import type { CoverageFilters, FilterUpdateOptions } from "./filters";
+import type { MediaRegistryStore } from "./mediaRegistry";
+import type { RateCardStore } from "./prValue";
+import type { SpokespersonRegistryStore } from "./spokespersonRegistry";
+
+export type CoverageStore = {
+  articles: CoverageArticle[];
+  loading: boolean;
+  error: string | null;
+  lastUpdated: Date | null;
+  refresh: (showLoading?: boolean) => Promise<void>;
+};
 
 export type KpiSummary = {
   total: number;
   positiveShare: number;
   negativeShare: number;
-  avgScore: string;
-  sentimentCounts: Record<Sentiment, number>;
+  netScore: number;
+  totalReach: number;
+  reachWeightedScore: number | null;
+  ave: number;
+  prValue: number;
+  sentimentCounts: Record<SentimentLabel, number>;
 };
 
 export type TrendPoint = {
@@ -28,8 +44,24 @@ export type SpokespersonRow = {
   negative: number;
 };
 
+export type DrillDown = {
+  title: string;
+  articles: CoverageArticle[];
+};
+
 export type DashboardContext = {
-  filteredArticles: Article[];
+  coverage: CoverageStore;
+  filters: CoverageFilters;
+  filterSearch: string;
+  updateFilters: (
+    patch: Partial<CoverageFilters>,
+    options?: FilterUpdateOptions,
+  ) => void;
+  filteredArticles: CoverageArticle[];
+  comparisonArticles: CoverageArticle[] | null;
+  mediaRegistry: MediaRegistryStore;
+  spokespersonRegistry: SpokespersonRegistryStore;
+  rateCard: RateCardStore;
   kpis: KpiSummary;
   trendData: TrendPoint[];
   sentimentData: DistributionPoint[];
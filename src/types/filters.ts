@@ -0,0 +1,55 @@
+export type DateRangePreset =
+  | "all"
+  | "today"
+  | "yesterday"
+  | "last7"
+  | "last30"
+  | "last90"
+  | "mtd"
+  | "qtd"
+  | "ytd"
+  | "prevMonth"
+  | "custom";
+
+export type ComparePreset = "none" | "previous" | "lastYear" | "custom";
+
+export type TrendGranularity = "day" | "week" | "month" | "quarter";
+
+export type FacetKey =
+  | "company"
+  | "sentiment"
+  | "media"
+  | "topic"
+  | "mainframe"
+  | "spokesperson"
+  | "mediaType"
+  | "scope"
+  | "tier";
+
+export type CoverageFilters = {
+  range: DateRangePreset;
+  dateFrom: string;
+  dateTo: string;
+  compare: ComparePreset;
+  compareFrom: string;
+  compareTo: string;
+  granularity: TrendGranularity;
+  company: string[];
+  sentiment: string[];
+  media: string[];
+  topic: string[];
+  mainframe: string[];
+  spokesperson: string[];
+  mediaType: string[];
+  scope: string[];
+  tier: string[];
+  query: string;
+};
+
+export type FilterOptions = Record<FacetKey, string[]>;
+
+export type FacetCounts = Record<FacetKey, Record<string, number>>;
+
+export type FilterUpdateOptions = {
+  replace?: boolean;
+};
@@ -0,0 +1,27 @@
+import type { MediaType } from "./coverage";
+
+export const MEDIA_TIERS = ["Tier 1", "Tier 2", "Tier 3"] as const;
+
+export type MediaTier = (typeof MEDIA_TIERS)[number];
+
+export const MEDIA_SCOPES = ["Nasional", "Regional"] as const;
+
+export type MediaScope = (typeof MEDIA_SCOPES)[number];
+
+export type MediaRegistryEntry = {
+  id: string;
+  name: string;
+  aliases: string[];
+  tier: MediaTier | "";
+  reach: number;
+  mediaType: MediaType | "";
+  scope: MediaScope | "";
+  province: string;
+};
+
+export type MediaRegistryStore = {
+  entries: MediaRegistryEntry[];
+  saveEntry: (entry: MediaRegistryEntry) => void;
+  deleteEntry: (id: string) => void;
+  importEntries: (entries: MediaRegistryEntry[]) => void;
+};
@@ -0,0 +1,22 @@
+import type { SentimentLabel } from "./coverage";
+
+export type RateCard = {
+  online: Record<string, number>;
+  print: Record<string, number>;
+  media: Record<string, number>;
+  defaultColumnCm: number;
+  toneMultipliers: Record<SentimentLabel, number>;
+};
+
+export type RateCardStore = {
+  rateCard: RateCard;
+  updateRateCard: (rateCard: RateCard) => void;
+  resetRateCard: () => void;
+};
+
+export type ValueBreakdown = {
+  name: string;
+  count: number;
+  ave: number;
+  prValue: number;
+};
@@ -0,0 +1,12 @@
+export type SavedView = {
+  id: string;
+  name: string;
+  path: string;
+  search: string;
+  createdAt: string;
+};
+
+export type SavedViewsState = {
+  views: SavedView[];
+  defaultViewId: string | null;
+};
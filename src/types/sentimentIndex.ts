@@ -0,0 +1,16 @@
+import type { MediaType } from "./coverage";
+
+export type SentimentWeights = {
+  tiers: Record<string, number>;
+  mediaType: Record<MediaType, number>;
+  mainSubject: number;
+  otherSubject: number;
+};
+
+export type SentimentIndexPoint = {
+  period: string;
+  volume: number;
+  netScore: number;
+  weightedIndex: number;
+  reachWeighted: number | null;
+};
@@ -0,0 +1,15 @@
+export type SpokespersonRegistryEntry = {
+  id: string;
+  name: string;
+  aliases: string[];
+  title: string;
+  organization: string;
+  photoUrl: string;
+};
+
+export type SpokespersonRegistryStore = {
+  entries: SpokespersonRegistryEntry[];
+  saveEntry: (entry: SpokespersonRegistryEntry) => void;
+  deleteEntry: (id: string) => void;
+  importEntries: (entries: SpokespersonRegistryEntry[]) => void;
+};